@@ -0,0 +1,12 @@
+import { Agent } from '@mastra/core/agent';
+
+// Writes the short explanations shown after each answer and in game reviews
+export const explainerAgent = new Agent({
+  name: 'Trivia Explainer Agent',
+  instructions: `
+    You explain trivia answers in one or two short, factual sentences.
+    Say why the correct answer is right; mention a memorable fact if it helps the player remember it.
+    Do not greet the player, repeat the question, or judge their answer. Never use more than 60 words.
+  `,
+  model: 'google/gemini-2.0-flash',
+});
@@ -0,0 +1,15 @@
+import { Agent } from '@mastra/core/agent';
+
+// Drafts multiple-choice questions from reference text, and checks drafts against that text
+export const questionWriterAgent = new Agent({
+  name: 'Trivia Question Writer Agent',
+  instructions: `
+    You write and check trivia questions that are based only on a reference text you are given.
+    When writing: every question must be answerable from the text alone, with one correct answer the text states and
+    three distractors that are plausible for someone who hasn't read the text but that the text does not support.
+    Keep questions short and self-contained; never refer to "the text" or "the document".
+    When checking: judge only against the reference text, not general knowledge, and be strict. An answer is supported
+    only if the text states it or directly implies it.
+  `,
+  model: 'google/gemini-2.0-flash',
+});
@@ -0,0 +1,177 @@
+import type { Question } from '../questions';
+import type { AchievementRepository, UnlockedAchievement } from '../storage';
+import { toUtcDate } from './leaderboard';
+import type { AnswerRecord, GameResult, GameState } from './types';
+
+// Achievements: badges for milestones within a game or across games. Each badge is earned once per player, except
+// the category specialist, which is earned once per category.
+
+const HOT_STREAK = 10;
+// Perfect games need enough questions to mean something
+const PERFECT_GAME_MIN_QUESTIONS = 5;
+// Correct answers in one category, across all games
+const SPECIALIST_ANSWERS = 25;
+const PLAY_STREAK_DAYS = 7;
+
+export const achievementIds = ['first-game', 'perfect-game', 'hot-streak', 'hard-no-hints', 'category-specialist', 'week-streak'] as const;
+export type AchievementId = (typeof achievementIds)[number];
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  name: string;
+  emoji: string;
+  description: string;
+}
+
+// An unlocked achievement as the tools show it
+export interface Badge extends AchievementDefinition {
+  detail?: string;
+  unlockedAt: string;
+}
+
+// What the rules look at after an answer or skip
+export interface AchievementProgress {
+  gameState: GameState;
+  // The question that was just answered or skipped
+  question: Question;
+  gameCompleted: boolean;
+  // The player's answer history, including this move
+  answers: AnswerRecord[];
+  // The player's completed games, including this one if it just finished; only loaded when it did
+  results: GameResult[];
+  today: string;
+}
+
+interface AchievementRule extends AchievementDefinition {
+  // true (or a detail such as the category) when the progress earns the badge
+  earned(progress: AchievementProgress): boolean | string;
+  // Earned again for each new detail, so it never runs out
+  perDetail?: boolean;
+}
+
+const rules: AchievementRule[] = [
+  {
+    id: 'first-game',
+    name: 'First Game',
+    emoji: '🎉',
+    description: 'Finish your first game',
+    earned: ({ gameCompleted }) => gameCompleted
+  },
+  {
+    id: 'perfect-game',
+    name: 'Flawless',
+    emoji: '💯',
+    description: `Answer every question correctly in a game of at least ${PERFECT_GAME_MIN_QUESTIONS} questions`,
+    earned: ({ gameState, gameCompleted }) =>
+      gameCompleted &&
+      gameState.questions.length >= PERFECT_GAME_MIN_QUESTIONS &&
+      gameState.questions.every(q => q.answeredCorrectly)
+  },
+  {
+    id: 'hot-streak',
+    name: 'On Fire',
+    emoji: '🔥',
+    description: `Get ${HOT_STREAK} answers in a row right in one game`,
+    earned: ({ gameState }) => gameState.streak >= HOT_STREAK
+  },
+  {
+    id: 'hard-no-hints',
+    name: 'No Help Needed',
+    emoji: '🧠',
+    description: 'Finish a game of hard questions without lifelines or skips, getting at least half right',
+    earned: ({ gameState, gameCompleted }) =>
+      gameCompleted &&
+      gameState.questions.every(q => q.difficulty === 'hard') &&
+      Object.values(gameState.lifelinesUsed).every(used => used === 0) &&
+      gameState.skipsUsed === 0 &&
+      gameState.correctAnswers * 2 >= gameState.questions.length
+  },
+  {
+    id: 'category-specialist',
+    name: 'Category Specialist',
+    emoji: '🎓',
+    description: `Get ${SPECIALIST_ANSWERS} answers right in one category`,
+    perDetail: true,
+    earned: ({ question, answers }) => {
+      if (!question.answeredCorrectly) return false;
+      const correct = answers.filter(a => a.correct && a.category === question.category).length;
+      return correct >= SPECIALIST_ANSWERS ? question.category : false;
+    }
+  },
+  {
+    id: 'week-streak',
+    name: 'Week Streak',
+    emoji: '📅',
+    description: `Finish a game on ${PLAY_STREAK_DAYS} days in a row`,
+    earned: ({ gameCompleted, results, today }) => gameCompleted && playStreak(results, today) >= PLAY_STREAK_DAYS
+  }
+];
+
+// Days in a row (UTC) with a completed game. The streak is still alive until a whole day passes without one.
+export function playStreak(results: Pick<GameResult, 'playedOn'>[], today: string): number {
+  const days = new Set(results.map(r => r.playedOn));
+  const day = new Date(`${today}T00:00:00.000Z`);
+  if (!days.has(today)) day.setUTCDate(day.getUTCDate() - 1);
+
+  let streak = 0;
+  while (days.has(toUtcDate(day))) {
+    streak += 1;
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+  return streak;
+}
+
+function toBadge(unlocked: UnlockedAchievement): Badge | undefined {
+  const rule = rules.find(r => r.id === unlocked.achievementId);
+  if (!rule) return undefined;
+  return { ...toDefinition(rule), detail: unlocked.detail, unlockedAt: unlocked.unlockedAt };
+}
+
+function toDefinition({ earned, perDetail, ...definition }: AchievementRule): AchievementDefinition {
+  return definition;
+}
+
+function ownedKey(achievementId: string, detail: string | undefined) {
+  return `${achievementId}:${detail ?? ''}`;
+}
+
+// Player-facing line celebrating a new badge
+export function describeBadge(badge: Badge): string {
+  return `🏅 Achievement unlocked: ${badge.emoji} ${badge.name}${badge.detail ? ` (${badge.detail})` : ''}! ${badge.description}.`;
+}
+
+// Check every rule the player hasn't met yet and store the badges they just earned
+export async function awardAchievements(repository: AchievementRepository, progress: AchievementProgress, now: Date): Promise<Badge[]> {
+  const { playerId, gameId } = progress.gameState;
+  const owned = new Set((await repository.list(playerId)).map(a => ownedKey(a.achievementId, a.detail)));
+
+  const unlocked: Badge[] = [];
+  for (const rule of rules) {
+    if (!rule.perDetail && owned.has(ownedKey(rule.id, undefined))) continue;
+    const earned = rule.earned(progress);
+    if (earned === false) continue;
+    const detail = typeof earned === 'string' ? earned : undefined;
+    if (owned.has(ownedKey(rule.id, detail))) continue;
+
+    const achievement = {
+      playerId,
+      achievementId: rule.id,
+      detail,
+      gameId,
+      unlockedAt: now.toISOString()
+    };
+    // A concurrent move may have unlocked it first
+    if (await repository.unlock(achievement)) unlocked.push(toBadge(achievement)!);
+  }
+  return unlocked;
+}
+
+// The player's badges, and the ones still to earn; a per-detail badge stays on offer for the details not earned yet
+export async function listAchievements(repository: AchievementRepository, playerId: string) {
+  const owned = await repository.list(playerId);
+  const ownedIds = new Set(owned.map(a => a.achievementId));
+  return {
+    unlocked: owned.map(toBadge).filter((badge): badge is Badge => badge !== undefined),
+    locked: rules.filter(rule => rule.perDetail || !ownedIds.has(rule.id)).map(toDefinition)
+  };
+}
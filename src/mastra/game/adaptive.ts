@@ -0,0 +1,76 @@
+import type { Difficulty, Question, QuestionProvider, QuestionQuery } from '../questions';
+import type { GameState } from './types';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+// How many recent answers drive the next pick
+const RECENT_WINDOW = 3;
+// Fetch a few times more questions than the game needs so every difficulty has spares
+const POOL_FACTOR = 3;
+// OpenTDB serves at most 50 questions per request
+const MAX_POOL_SIZE = 50;
+
+// Extra per-game state for adaptive games
+export interface AdaptiveState {
+  // Pre-fetched questions not (yet) placed in the game, drawn from when the target difficulty changes
+  reserve: Question[];
+  // Correctness of the most recent answers, oldest first
+  recent: boolean[];
+}
+
+// Starting level from the player's rating, nudged by recent accuracy and streak
+export function chooseDifficulty(rating: number, recent: boolean[], streak: number): Difficulty {
+  let level = rating < 1100 ? 0 : rating > 1300 ? 2 : 1;
+
+  const window = recent.slice(-RECENT_WINDOW);
+  if (window.length > 0) {
+    const accuracy = window.filter(Boolean).length / window.length;
+    if (accuracy >= 2 / 3 && streak >= 2) level += 1;
+    else if (accuracy <= 1 / 3) level -= 1;
+  }
+  return DIFFICULTIES[Math.max(0, Math.min(2, level))];
+}
+
+// Pre-fetch a mixed pool (one request, so OpenTDB's rate limit isn't hit) to draw each difficulty from
+export async function fetchAdaptivePool(
+  provider: QuestionProvider,
+  questionsCount: number,
+  filter: Pick<QuestionQuery, 'category' | 'type' | 'sessionKey'> = {}
+): Promise<Question[]> {
+  return provider.fetchQuestions({ ...filter, amount: Math.min(questionsCount * POOL_FACTOR, MAX_POOL_SIZE) });
+}
+
+// Split the pool into the game's question slots and the reserve
+export function createAdaptiveGame(pool: Question[], questionsCount: number) {
+  const byDifficulty = DIFFICULTIES.map(d => pool.filter(q => q.difficulty === d));
+  const questions: Question[] = [];
+  // Interleave difficulties so the initial slots are balanced
+  for (let i = 0; questions.length < Math.min(questionsCount, pool.length); i++) {
+    const bucket = byDifficulty[i % DIFFICULTIES.length];
+    const next = bucket.shift();
+    if (next) questions.push(next);
+  }
+  const reserve = byDifficulty.flat();
+  return { questions, adaptive: { reserve, recent: [] } as AdaptiveState };
+}
+
+// Make sure the question at the current index matches the difficulty picked for the player
+export function adaptCurrentQuestion(state: GameState, rating: number) {
+  const adaptive = state.adaptive;
+  const current = state.questions[state.currentQuestionIndex];
+  if (!adaptive || !current) return;
+
+  const target = chooseDifficulty(rating, adaptive.recent, state.streak);
+  if (current.difficulty === target) return;
+
+  const replacementIndex = adaptive.reserve.findIndex(q => q.difficulty === target);
+  if (replacementIndex === -1) return;
+
+  const [replacement] = adaptive.reserve.splice(replacementIndex, 1);
+  adaptive.reserve.push(current);
+  state.questions[state.currentQuestionIndex] = replacement;
+}
+
+export function recordAdaptiveResult(state: GameState, correct: boolean) {
+  if (!state.adaptive) return;
+  state.adaptive.recent = [...state.adaptive.recent, correct].slice(-RECENT_WINDOW);
+}
@@ -0,0 +1,133 @@
+import type { Question } from '../questions';
+
+const TRUE_WORDS = new Set(['TRUE', 'T', 'YES', 'Y']);
+const FALSE_WORDS = new Set(['FALSE', 'F', 'NO', 'N']);
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90
+};
+
+// Check an answer against the question, using the rules for its type
+export function judgeAnswer(question: Question, answer: string): boolean {
+  switch (question.type ?? 'multiple') {
+    case 'boolean':
+      return judgeBooleanAnswer(question, answer);
+    case 'text':
+      return judgeTextAnswer(question, answer);
+    default:
+      return judgeMultipleChoiceAnswer(question, answer);
+  }
+}
+
+// Why an answer can't be judged for this question (so it shouldn't use the question up), or undefined if it can
+export function invalidAnswerReason(question: Question, answer: string): string | undefined {
+  const trimmed = answer.trim();
+  if (!trimmed) return 'Please give an answer, or ask for a hint or a skip.';
+
+  switch (question.type ?? 'multiple') {
+    case 'boolean':
+      return parseBooleanAnswer(trimmed) === undefined ? `"${trimmed}" isn't an answer here. Reply True or False.` : undefined;
+    case 'text':
+      return undefined;
+    default: {
+      const letters = question.options.map((_, i) => String.fromCharCode(65 + i));
+      const upper = trimmed.toUpperCase();
+      const isLetter = letters.includes(upper);
+      const isOption = question.options.some(option => option.toUpperCase() === upper);
+      return isLetter || isOption
+        ? undefined
+        : `"${trimmed}" isn't one of the options. Reply with ${letters.join(', ')} or the option text.`;
+    }
+  }
+}
+
+// Letter (A, B, C, D) or exact text (case-insensitive)
+function judgeMultipleChoiceAnswer(question: Question, answer: string): boolean {
+  // Normalize answer comparison
+  const normalizedUserAnswer = answer.trim().toUpperCase();
+  const normalizedCorrectAnswer = question.correct.toUpperCase();
+
+  if (/^[A-D]$/.test(normalizedUserAnswer)) {
+    const optionIndex = normalizedUserAnswer.charCodeAt(0) - 65; // A=0, B=1, etc.
+    return question.options[optionIndex] === question.correct;
+  }
+  return normalizedUserAnswer === normalizedCorrectAnswer;
+}
+
+// Read a true/false style answer; undefined if it isn't one
+export function parseBooleanAnswer(answer: string): boolean | undefined {
+  const normalized = answer.trim().toUpperCase().replace(/[.!]+$/, '');
+  if (TRUE_WORDS.has(normalized) || normalized === 'A') return true;
+  if (FALSE_WORDS.has(normalized) || normalized === 'B') return false;
+  return undefined;
+}
+
+// true/false/yes/no (and A/B for the True, False options)
+function judgeBooleanAnswer(question: Question, answer: string): boolean {
+  const parsed = parseBooleanAnswer(answer);
+  return parsed !== undefined && parsed === (question.correct.toLowerCase() === 'true');
+}
+
+// Lowercase, strip punctuation and accents, drop leading articles, and turn number words into digits
+export function normalizeFreeText(text: string): string {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1$2')
+    .replace(/[^a-z0-9.\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && ['the', 'a', 'an'].includes(words[0])) words.shift();
+
+  // "twenty one" -> "21"
+  const merged: string[] = [];
+  for (const word of words) {
+    const value = NUMBER_WORDS[word];
+    const previous = merged[merged.length - 1];
+    if (value !== undefined && value < 10 && previous && /^[2-9]0$/.test(previous)) {
+      merged[merged.length - 1] = String(Number(previous) + value);
+    } else {
+      merged.push(value !== undefined ? String(value) : word.replace(/\.$/, ''));
+    }
+  }
+  return merged.join(' ');
+}
+
+export function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Typos allowed grow with the answer length; short and numeric answers must match exactly
+function allowedTypos(expected: string): number {
+  if (/^[\d. ]+$/.test(expected) || expected.length <= 4) return 0;
+  return expected.length <= 8 ? 1 : 2;
+}
+
+export function fuzzyMatches(answer: string, expected: string): boolean {
+  const given = normalizeFreeText(answer);
+  const target = normalizeFreeText(expected);
+  if (!given || !target) return false;
+  if (given === target) return true;
+  if (/^[\d.]+$/.test(given) && /^[\d.]+$/.test(target)) return Number(given) === Number(target);
+  return levenshtein(given, target) <= allowedTypos(target);
+}
+
+function judgeTextAnswer(question: Question, answer: string): boolean {
+  return [question.correct, ...(question.acceptedAnswers ?? [])].some(expected => fuzzyMatches(answer, expected));
+}
@@ -0,0 +1,64 @@
+import { questionProvider, type QuestionCategory, type QuestionProvider } from '../questions';
+import { levenshtein } from './answers';
+
+const CATALOG_TTL_MS = 60 * 60 * 1000;
+const MAX_SUGGESTIONS = 3;
+
+export type CategoryLookup =
+  | { found: true; category: QuestionCategory }
+  | { found: false; suggestions: string[] };
+
+// "Entertainment: Video Games" -> "video games", so players can leave out the group prefix
+function shortName(name: string) {
+  return name.toLowerCase().replace(/^[^:]+:\s*/, '');
+}
+
+// Caches the categories the question sources offer and resolves what players type to one of them
+export class CategoryCatalog {
+  private cached?: { categories: QuestionCategory[]; expiresAt: number };
+
+  constructor(
+    private readonly provider: QuestionProvider,
+    private readonly ttlMs = CATALOG_TTL_MS
+  ) {}
+
+  async list(now: Date = new Date()): Promise<QuestionCategory[]> {
+    if (this.cached && this.cached.expiresAt > now.getTime()) return this.cached.categories;
+    const categories = await this.provider.listCategories();
+    this.cached = { categories, expiresAt: now.getTime() + this.ttlMs };
+    return categories;
+  }
+
+  // Accepts an OpenTDB id, a full name or a name without its group prefix (case-insensitive)
+  async resolve(input: string, now?: Date): Promise<CategoryLookup> {
+    const categories = await this.list(now);
+    const query = input.trim().toLowerCase();
+
+    const match = /^\d+$/.test(query)
+      ? categories.find(c => c.id === Number(query))
+      : categories.find(c => c.name.toLowerCase() === query) ?? categories.find(c => shortName(c.name) === query);
+    if (match) return { found: true, category: match };
+
+    return { found: false, suggestions: suggestCategories(categories, query) };
+  }
+}
+
+// Closest names first: partial matches, then small edit distances to the name or one of its words
+function suggestCategories(categories: QuestionCategory[], query: string): string[] {
+  if (!query) return [];
+  return categories
+    .map(c => {
+      const name = c.name.toLowerCase();
+      const candidates = [name, shortName(c.name), ...name.split(/[^a-z0-9]+/).filter(Boolean)];
+      const partial = name.includes(query) || query.includes(shortName(c.name));
+      const distance = Math.min(...candidates.map(candidate => levenshtein(query, candidate)));
+      return { name: c.name, score: partial ? 0 : distance };
+    })
+    .filter(c => c.score <= Math.max(2, Math.floor(query.length / 3)))
+    .sort((a, b) => a.score - b.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(c => c.name);
+}
+
+// Shared catalog for the game tools and the trivia workflow
+export const categoryCatalog = new CategoryCatalog(questionProvider);
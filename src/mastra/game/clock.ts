@@ -0,0 +1,22 @@
+// Time source for the game; swap it out in tests to control question timers
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+let activeClock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return activeClock;
+}
+
+export function setClock(clock: Clock) {
+  activeClock = clock;
+}
+
+export function resetClock() {
+  activeClock = systemClock;
+}
@@ -0,0 +1,36 @@
+import { shuffleArray, type Question, type QuestionProvider } from '../questions';
+import type { DailyChallengeRepository } from '../storage';
+import { seededRandom } from './random';
+
+export const DAILY_CHALLENGE_SIZE = 10;
+
+// Put questions and options in a reproducible order for the given date
+export function seedDailyQuestions(date: string, questions: Question[]): Question[] {
+  const ordered = shuffleArray(
+    [...questions].sort((a, b) => a.question.localeCompare(b.question)),
+    seededRandom(`daily:${date}`)
+  );
+  return ordered.map((q, index) => ({
+    ...q,
+    id: `q-${index + 1}`,
+    // Sort first so the seeded shuffle doesn't depend on the order the source returned
+    options: q.type === 'multiple'
+      ? shuffleArray([...q.options].sort(), seededRandom(`daily:${date}:${index}`))
+      : q.options,
+    answered: false,
+    userAnswer: undefined
+  }));
+}
+
+// The shared question set for a UTC date; the first request of the day creates and stores it
+export async function getDailyQuestions(
+  date: string,
+  repository: DailyChallengeRepository,
+  provider: QuestionProvider
+): Promise<Question[]> {
+  const existing = await repository.getQuestions(date);
+  if (existing) return existing;
+
+  const fetched = await provider.fetchQuestions({ amount: DAILY_CHALLENGE_SIZE });
+  return repository.saveQuestions(date, seedDailyQuestions(date, fetched));
+}
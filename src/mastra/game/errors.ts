@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { QuestionSourceError } from '../questions';
+
+// Solo games
+const soloGameErrorCodes = [
+  'NO_ACTIVE_GAME',
+  'GAME_COMPLETED',
+  'GAME_PAUSED',
+  'GAME_ABANDONED',
+  'GAME_EXPIRED',
+  'LIFELINE_EXHAUSTED',
+  'LIFELINE_UNAVAILABLE',
+  'SKIPS_EXHAUSTED',
+  'INVALID_ANSWER',
+  'STALE_QUESTION',
+  'UNKNOWN_PLAYER',
+  'UNKNOWN_CATEGORY',
+  'UNKNOWN_PACK',
+  'DAILY_LIMIT_REACHED',
+  'NO_QUESTIONS',
+  'SOURCE_UNAVAILABLE',
+  'RATE_LIMITED'
+] as const;
+
+export const roomErrorCodes = [
+  'ROOM_NOT_FOUND',
+  'ROOM_FULL',
+  'ROOM_BUSY',
+  'NOT_HOST',
+  'NOT_A_MEMBER',
+  'WRONG_STATUS',
+  'ALREADY_ANSWERED',
+  'INVALID_ANSWER',
+  'STALE_QUESTION'
+] as const;
+export type RoomErrorCode = (typeof roomErrorCodes)[number];
+
+export const tournamentErrorCodes = [
+  'TOURNAMENT_NOT_FOUND',
+  'TOURNAMENT_FULL',
+  'TOURNAMENT_BUSY',
+  'NOT_ORGANIZER',
+  'NOT_REGISTERED',
+  'WRONG_STATUS',
+  'TOO_FEW_PLAYERS',
+  'NO_MATCH',
+  'MATCH_PLAYED'
+] as const;
+export type TournamentErrorCode = (typeof tournamentErrorCodes)[number];
+
+export const questionPackErrorCodes = ['PACK_NOT_FOUND', 'PACK_EXISTS', 'NOT_PACK_OWNER', 'INVALID_PACK', 'GENERATION_FAILED'] as const;
+export type QuestionPackErrorCode = (typeof questionPackErrorCodes)[number];
+
+// Every code a tool's error result can carry. Rooms, tournaments and packs throw subclasses of GameError with their own codes.
+export const gameErrorCodes = [...soloGameErrorCodes, ...roomErrorCodes, ...tournamentErrorCodes, ...questionPackErrorCodes] as const;
+export type GameErrorCode = (typeof gameErrorCodes)[number];
+
+// Expected failures of a game action; turned into an error result instead of failing the tool call
+export class GameError extends Error {
+  constructor(message: string, public readonly code: GameErrorCode) {
+    super(message);
+    this.name = 'GameError';
+  }
+}
+
+export interface GameErrorResult {
+  success: false;
+  code: GameErrorCode;
+  message: string;
+}
+
+export const gameErrorResultSchema = z.object({
+  success: z.literal(false),
+  code: z.enum(gameErrorCodes),
+  message: z.string().describe('What went wrong, ready to tell the player')
+});
+
+// Output schema of a game tool: its normal result, or an error result with a code
+export function gameResultSchema<T extends z.ZodRawShape, E extends z.ZodRawShape = {}>(shape: T, errorShape?: E) {
+  return z.discriminatedUnion('success', [
+    z.object({ success: z.literal(true), ...shape }),
+    gameErrorResultSchema.extend(errorShape ?? ({} as E))
+  ]);
+}
+
+function sourceErrorResult(error: QuestionSourceError): GameErrorResult {
+  switch (error.code) {
+    case 'RATE_LIMITED':
+      return { success: false, code: 'RATE_LIMITED', message: 'The question service is busy right now. Please try again in a few seconds.' };
+    case 'NO_RESULTS':
+    case 'INVALID_QUERY':
+      return {
+        success: false,
+        code: 'NO_QUESTIONS',
+        message: 'There are no questions for that category and difficulty right now. Try another combination.'
+      };
+    default:
+      return { success: false, code: 'SOURCE_UNAVAILABLE', message: 'Questions are unavailable right now. Please try again later.' };
+  }
+}
+
+// Report an expected failure as an error result; anything else is a bug and is rethrown
+export function toGameErrorResult(error: unknown): GameErrorResult {
+  if (error instanceof GameError) return { success: false, code: error.code, message: error.message };
+  if (error instanceof QuestionSourceError) return sourceErrorResult(error);
+  throw error;
+}
+
+// Run a game action, reporting expected failures as error results
+export async function withGameErrors<T>(action: () => Promise<T>): Promise<T | GameErrorResult> {
+  try {
+    return await action();
+  } catch (error) {
+    return toGameErrorResult(error);
+  }
+}
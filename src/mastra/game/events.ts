@@ -0,0 +1,49 @@
+import { EventEmitter } from 'node:events';
+import type { QuestionPayload } from '../tools/question-payload';
+import type { Badge } from './achievements';
+
+// Live game events for clients that follow a player's game outside the chat (the SSE endpoint)
+
+export type GameEvent =
+  | { type: 'question-issued'; playerId: string; gameId: string; totalQuestions: number; question: QuestionPayload }
+  | {
+      type: 'question-answered';
+      playerId: string;
+      gameId: string;
+      questionNumber: number;
+      correct: boolean;
+      timedOut: boolean;
+      correctAnswer: string;
+      pointsEarned: number;
+      score: number;
+      streak: number;
+      achievements: Badge[];
+    }
+  | { type: 'question-skipped'; playerId: string; gameId: string; questionNumber: number; score: number; achievements: Badge[] }
+  | { type: 'game-completed'; playerId: string; gameId: string; score: number; correctAnswers: number; totalQuestions: number }
+  // The host's presentation as the model streams it, then the full text (also sent when the model fell back)
+  | { type: 'host-text'; playerId: string; delta: string }
+  | { type: 'host-text-end'; playerId: string; text: string };
+
+export type GameEventType = GameEvent['type'];
+
+const emitter = new EventEmitter();
+// One listener per open event stream
+emitter.setMaxListeners(0);
+
+// Prefixed so a player id can never be one of the emitter's own event names ("error")
+function channel(playerId: string) {
+  return `player:${playerId}`;
+}
+
+export function publishGameEvent(event: GameEvent) {
+  emitter.emit(channel(event.playerId), event);
+}
+
+// Listen to one player's events; returns the unsubscribe function
+export function subscribeToGameEvents(playerId: string, listener: (event: GameEvent) => void): () => void {
+  emitter.on(channel(playerId), listener);
+  return () => {
+    emitter.off(channel(playerId), listener);
+  };
+}
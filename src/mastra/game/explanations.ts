@@ -0,0 +1,60 @@
+import { explainerAgent } from '../agents/explainer-agent';
+import { questionFingerprint, type Question } from '../questions';
+import type { ExplanationRepository } from '../storage';
+
+const GENERATION_TIMEOUT_MS = 8000;
+
+// Writes an explanation for a question the source didn't explain; swap it out in tests
+export interface ExplanationGenerator {
+  explain(question: Question): Promise<string>;
+}
+
+export const agentExplanationGenerator: ExplanationGenerator = {
+  explain: async question => {
+    const prompt = [
+      `Question: ${question.question}`,
+      question.options.length > 0 ? `Options: ${question.options.join(' | ')}` : undefined,
+      `Correct answer: ${question.correct}`,
+      'Explain the correct answer.'
+    ].filter(Boolean).join('\n');
+
+    const response = await explainerAgent.generate([{ role: 'user', content: prompt }], {
+      abortSignal: AbortSignal.timeout(GENERATION_TIMEOUT_MS)
+    });
+    return response.text.trim();
+  }
+};
+
+let activeGenerator: ExplanationGenerator = agentExplanationGenerator;
+
+export function getExplanationGenerator(): ExplanationGenerator {
+  return activeGenerator;
+}
+
+export function setExplanationGenerator(generator: ExplanationGenerator) {
+  activeGenerator = generator;
+}
+
+export function resetExplanationGenerator() {
+  activeGenerator = agentExplanationGenerator;
+}
+
+// The source's explanation if it has one, otherwise a generated one cached per question.
+// Returns undefined when generation fails, so a missing explanation never blocks the game.
+export async function explainQuestion(
+  question: Question,
+  repository: ExplanationRepository
+): Promise<string | undefined> {
+  if (question.explanation) return question.explanation;
+
+  const key = questionFingerprint(question.question);
+  const cached = await repository.get(key);
+  if (cached) return cached;
+
+  try {
+    const explanation = await activeGenerator.explain(question);
+    return explanation ? await repository.save(key, explanation) : undefined;
+  } catch {
+    return undefined;
+  }
+}
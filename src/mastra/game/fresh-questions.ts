@@ -0,0 +1,59 @@
+import { OPENTDB_SOURCE, questionFingerprint, type Question, type QuestionProvider, type QuestionQuery } from '../questions';
+
+// Extra requests made to top up a game when the first batch contains questions the player has seen
+const MAX_TOP_UPS = 2;
+// How far back a player's history is checked for repeats
+export const SEEN_HISTORY_LIMIT = 500;
+
+// Fetch a game's questions, preferring ones the player hasn't seen. Falls back to repeats
+// (rather than failing) when the source runs out of new questions for the query.
+export async function fetchUnseenQuestions(
+  provider: QuestionProvider,
+  query: QuestionQuery,
+  seen: Set<string>
+): Promise<Question[]> {
+  const fresh: Question[] = [];
+  const repeats: Question[] = [];
+  const inGame = new Set<string>();
+
+  const collect = (batch: Question[]) => {
+    let added = 0;
+    for (const question of batch) {
+      const fingerprint = questionFingerprint(question.question);
+      if (inGame.has(fingerprint)) continue;
+      inGame.add(fingerprint);
+      if (seen.has(fingerprint)) {
+        repeats.push(question);
+      } else {
+        fresh.push(question);
+        added++;
+      }
+    }
+    return added;
+  };
+
+  // The first request fails the game as usual; top-ups are best effort. OpenTDB batches aren't topped up:
+  // its session token already skips questions served to the player, and each request costs a 5 second wait.
+  const first = await provider.fetchQuestions(query);
+  collect(first);
+  const topUps = first.some(question => question.source === OPENTDB_SOURCE) ? 0 : MAX_TOP_UPS;
+  for (let topUp = 0; topUp < topUps && fresh.length < query.amount; topUp++) {
+    try {
+      if (collect(await provider.fetchQuestions(query)) === 0) break;
+    } catch {
+      break;
+    }
+  }
+
+  return [...fresh, ...repeats]
+    .slice(0, query.amount)
+    .map((question, index) => ({ ...question, id: `q-${index + 1}` }));
+}
+
+// Drop questions the player has seen, unless that would leave fewer than `minimum`
+export function preferUnseen(questions: Question[], seen: Set<string>, minimum: number): Question[] {
+  const unseen = questions.filter(q => !seen.has(questionFingerprint(q.question)));
+  if (unseen.length >= minimum) return unseen;
+  const repeats = questions.filter(q => seen.has(questionFingerprint(q.question)));
+  return [...unseen, ...repeats.slice(0, minimum - unseen.length)];
+}
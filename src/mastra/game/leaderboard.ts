@@ -0,0 +1,77 @@
+import type { GameResult, GameState } from './types';
+
+export const leaderboardScopes = ['today', 'week', 'all-time'] as const;
+export type LeaderboardScope = (typeof leaderboardScopes)[number];
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  score: number;
+  totalScore: number;
+  gamesPlayed: number;
+  accuracy: number;
+}
+
+export function toUtcDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// First UTC date included in a scope; weeks start on Monday
+export function scopeStartDate(scope: LeaderboardScope, now: Date = new Date()): string | undefined {
+  if (scope === 'all-time') return undefined;
+  if (scope === 'today') return toUtcDate(now);
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return toUtcDate(start);
+}
+
+// Snapshot a finished game into an immutable result
+export function buildGameResult(state: GameState, completedAt: Date = new Date()): GameResult {
+  const difficultyMix: Record<string, number> = {};
+  for (const q of state.questions) {
+    difficultyMix[q.difficulty] = (difficultyMix[q.difficulty] ?? 0) + 1;
+  }
+  const answered = state.questions.filter(q => q.answered).length;
+
+  return {
+    gameId: state.gameId,
+    playerId: state.playerId,
+    mode: state.mode,
+    score: state.score,
+    correctAnswers: state.correctAnswers,
+    totalQuestions: state.questions.length,
+    accuracy: answered > 0 ? Math.round((state.correctAnswers / answered) * 100) : 0,
+    hintsUsed: state.hintsUsed,
+    skipsUsed: state.skipsUsed,
+    difficultyMix,
+    categories: Array.from(new Set(state.questions.map(q => q.category))),
+    playedOn: toUtcDate(completedAt),
+    completedAt: completedAt.toISOString()
+  };
+}
+
+// Rank players by their best game, then total score, then average accuracy
+export function rankResults(results: GameResult[]): LeaderboardEntry[] {
+  const byPlayer = new Map<string, { best: number; total: number; games: number; accuracySum: number }>();
+  for (const r of results) {
+    const agg = byPlayer.get(r.playerId) ?? { best: 0, total: 0, games: 0, accuracySum: 0 };
+    agg.best = Math.max(agg.best, r.score);
+    agg.total += r.score;
+    agg.games += 1;
+    agg.accuracySum += r.accuracy;
+    byPlayer.set(r.playerId, agg);
+  }
+
+  return Array.from(byPlayer.entries(), ([playerId, agg]) => ({
+    rank: 0,
+    playerId,
+    score: agg.best,
+    totalScore: agg.total,
+    gamesPlayed: agg.games,
+    accuracy: Math.round(agg.accuracySum / agg.games)
+  }))
+    .sort((a, b) => b.score - a.score || b.totalScore - a.totalScore || b.accuracy - a.accuracy)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
@@ -0,0 +1,73 @@
+import { noLifelinesUsed } from './lifelines';
+import type { GameState, GameStatus } from './types';
+
+export interface LifecycleConfig {
+  // Minutes an active game can go without a move before it expires
+  idleMinutes: number;
+  // Hours a paused game is kept before it expires
+  pausedHours: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const lifecycleConfig: LifecycleConfig = {
+  idleMinutes: envNumber('TRIVIA_GAME_IDLE_MINUTES', 30),
+  pausedHours: envNumber('TRIVIA_PAUSED_GAME_HOURS', 24)
+};
+
+export function isGameOver(status: GameStatus): boolean {
+  return status === 'completed' || status === 'abandoned' || status === 'expired';
+}
+
+// Games saved before statuses existed: active until the last question is played. Games saved before
+// lifelines existed only used fifty-fifty (as hints).
+export function upgradeGameState(state: GameState): GameState {
+  state.status ??= state.currentQuestionIndex >= state.questions.length ? 'completed' : 'active';
+  state.lastActivityAt ??= state.startedAt;
+  state.lifelinesUsed ??= { ...noLifelinesUsed(), 'fifty-fifty': state.hintsUsed };
+  return state;
+}
+
+export function touchGame(state: GameState, now: Date) {
+  state.lastActivityAt = now.toISOString();
+}
+
+export function endGame(state: GameState, status: 'completed' | 'abandoned' | 'expired', now: Date) {
+  state.status = status;
+  state.endedAt = now.toISOString();
+  state.pausedAt = undefined;
+}
+
+// Expire an active or paused game that has sat untouched too long; true if it expired just now
+export function expireIfIdle(state: GameState, now: Date, config: LifecycleConfig = lifecycleConfig): boolean {
+  const limitMs = state.status === 'active'
+    ? config.idleMinutes * 60_000
+    : state.status === 'paused'
+      ? config.pausedHours * 3_600_000
+      : undefined;
+  if (limitMs === undefined || now.getTime() - Date.parse(state.lastActivityAt) <= limitMs) return false;
+
+  endGame(state, 'expired', now);
+  return true;
+}
+
+export function pauseGameState(state: GameState, now: Date) {
+  state.status = 'paused';
+  state.pausedAt = now.toISOString();
+  touchGame(state, now);
+}
+
+// Resume where the player left off; the question clock doesn't run while paused
+export function resumeGameState(state: GameState, now: Date) {
+  const current = state.questions[state.currentQuestionIndex];
+  if (current?.issuedAt && state.pausedAt) {
+    const pausedMs = now.getTime() - Date.parse(state.pausedAt);
+    current.issuedAt = new Date(Date.parse(current.issuedAt) + pausedMs).toISOString();
+  }
+  state.status = 'active';
+  state.pausedAt = undefined;
+  touchGame(state, now);
+}
@@ -0,0 +1,131 @@
+import { shuffleArray, type Question } from '../questions';
+import { GameError } from './errors';
+import { seededRandom } from './random';
+import type { LifelineRules } from './scoring';
+import { remainingSeconds } from './timing';
+import { lifelineNames, type GameState, type LifelineName } from './types';
+
+export const lifelineLabels: Record<LifelineName, string> = {
+  'fifty-fifty': '50/50',
+  'ask-the-audience': 'ask the audience',
+  'extra-time': 'extra time',
+  'double-or-nothing': 'double or nothing'
+};
+
+// Share of the audience that picks the right answer before noise; harder questions fool more of them
+const AUDIENCE_ACCURACY: Record<string, number> = { easy: 0.7, medium: 0.5, hard: 0.35 };
+
+export interface AudienceVote {
+  option: string;
+  percent: number;
+}
+
+// What a lifeline did to the current question
+export interface LifelineEffect {
+  message: string;
+  remainingOptions?: string[];
+  clue?: string;
+  audienceVotes?: AudienceVote[];
+  remainingSeconds?: number;
+  doubleOrNothing?: boolean;
+}
+
+export function noLifelinesUsed(): Record<LifelineName, number> {
+  return { 'fifty-fifty': 0, 'ask-the-audience': 0, 'extra-time': 0, 'double-or-nothing': 0 };
+}
+
+function unavailable(message: string): never {
+  throw new GameError(message, 'LIFELINE_UNAVAILABLE');
+}
+
+// Simulated vote over the options, percentages summing to 100
+export function audienceVotes(question: Question, random: () => number): AudienceVote[] {
+  const accuracy = AUDIENCE_ACCURACY[question.difficulty] ?? AUDIENCE_ACCURACY.medium;
+  const correctShare = Math.min(0.9, Math.max(0.15, accuracy + (random() - 0.5) * 0.3));
+  const weights = question.options.map(option => (option === question.correct ? 0 : 0.2 + random()));
+  const wrongTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  const percents = question.options.map((option, i) =>
+    Math.round(100 * (option === question.correct ? correctShare : wrongTotal > 0 ? ((1 - correctShare) * weights[i]) / wrongTotal : 0))
+  );
+
+  // Rounding can leave the total a point off; settle it on the biggest share
+  const top = percents.indexOf(Math.max(...percents));
+  percents[top] += 100 - percents.reduce((sum, percent) => sum + percent, 0);
+  return question.options.map((option, i) => ({ option, percent: percents[i] }));
+}
+
+// 50/50 for multiple choice, a letter clue for free text
+function fiftyFifty(question: Question): LifelineEffect {
+  // A 50/50 on a true/false question would give the answer away
+  if (question.type === 'boolean') {
+    unavailable("True/false questions are already a 50/50, so there's no hint for this one. Trust your gut!");
+  }
+
+  if (question.type === 'text') {
+    // First letter of each word, the rest as blanks
+    const clue = question.correct
+      .split(/\s+/)
+      .map(word => [word[0], ...Array.from(word.slice(1), () => '_')].join(' '))
+      .join('   ');
+    return { message: `💡 Hint used! The answer looks like: ${clue}`, remainingOptions: [], clue };
+  }
+
+  // Keep the correct answer and one wrong answer
+  const wrongAnswers = question.options.filter(opt => opt !== question.correct);
+  const randomWrongAnswer = wrongAnswers.length > 0 ? wrongAnswers[Math.floor(Math.random() * wrongAnswers.length)] : question.correct;
+  return {
+    message: '💡 Hint used! Two options eliminated.',
+    remainingOptions: shuffleArray([question.correct, randomWrongAnswer])
+  };
+}
+
+// Check the lifeline can be used on the current question and apply it. Throws before changing anything if it can't.
+export function applyLifeline(
+  gameState: GameState,
+  question: Question,
+  lifeline: LifelineName,
+  rules: LifelineRules,
+  now: Date
+): LifelineEffect {
+  switch (lifeline) {
+    case 'fifty-fifty':
+      return fiftyFifty(question);
+
+    case 'ask-the-audience': {
+      if (question.type === 'text') unavailable("The audience can't vote on a free-text question. Try a 50/50 clue instead.");
+      // Seeded per question, so asking twice doesn't reroll the vote
+      const votes = audienceVotes(question, seededRandom(`audience:${gameState.gameId}:${question.id}`));
+      const summary = votes.map((vote, i) => `${String.fromCharCode(65 + i)}. ${vote.option}: ${vote.percent}%`).join(', ');
+      return { message: `📊 The audience has voted! ${summary}`, audienceVotes: votes };
+    }
+
+    case 'extra-time': {
+      const left = remainingSeconds(question, gameState.timeLimitSeconds, now);
+      if (left === undefined) unavailable("This game isn't timed, so there's no clock to extend.");
+      if (left <= 0) unavailable("Time's already up on this question.");
+      question.extraSeconds = (question.extraSeconds ?? 0) + rules['extra-time'].seconds;
+      const extended = remainingSeconds(question, gameState.timeLimitSeconds, now)!;
+      return { message: `⏳ +${rules['extra-time'].seconds} seconds! You now have ${extended}s left.`, remainingSeconds: extended };
+    }
+
+    case 'double-or-nothing':
+      if (question.doubleOrNothing) unavailable('Double or nothing is already on for this question.');
+      question.doubleOrNothing = true;
+      return {
+        message: gameState.streak > 0
+          ? `🎲 Double or nothing! A correct answer scores double, a miss costs your streak of ${gameState.streak}.`
+          : '🎲 Double or nothing! A correct answer scores double.',
+        doubleOrNothing: true
+      };
+  }
+}
+
+// Per-lifeline usage for stats
+export function summarizeLifelines(gameState: GameState, rules: LifelineRules) {
+  return lifelineNames.map(name => ({
+    name,
+    used: gameState.lifelinesUsed[name],
+    remaining: Math.max(0, rules[name].limit - gameState.lifelinesUsed[name]),
+    penalty: rules[name].penalty
+  }));
+}
@@ -0,0 +1,88 @@
+import type { AnswerRecord, GameResult } from './types';
+
+// Categories need a few answers before they can be called weak
+const MIN_ANSWERS_FOR_WEAKNESS = 3;
+const WEAKEST_CATEGORIES = 3;
+
+export interface AccuracyBreakdown {
+  name: string;
+  answered: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface PlayerProfile {
+  playerId: string;
+  gamesPlayed: number;
+  questionsAnswered: number;
+  questionsSkipped: number;
+  accuracy: number;
+  bestScore: number;
+  bestStreak: number;
+  averageHintsPerGame: number;
+  averageSkipsPerGame: number;
+  byCategory: AccuracyBreakdown[];
+  byDifficulty: AccuracyBreakdown[];
+  weakestCategories: string[];
+}
+
+function percent(correct: number, total: number) {
+  return total > 0 ? Math.round((correct / total) * 100) : 0;
+}
+
+function roundTo1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Accuracy per group of answered (not skipped) questions, largest group first
+function breakdown(answers: AnswerRecord[], groupOf: (answer: AnswerRecord) => string): AccuracyBreakdown[] {
+  const groups = new Map<string, { answered: number; correct: number }>();
+  for (const answer of answers) {
+    const group = groups.get(groupOf(answer)) ?? { answered: 0, correct: 0 };
+    group.answered += 1;
+    if (answer.correct) group.correct += 1;
+    groups.set(groupOf(answer), group);
+  }
+  return Array.from(groups.entries(), ([name, g]) => ({ name, ...g, accuracy: percent(g.correct, g.answered) }))
+    .sort((a, b) => b.answered - a.answered || a.name.localeCompare(b.name));
+}
+
+// Longest run of correct answers within a single game; a miss or a skip ends the run
+function longestStreak(answers: AnswerRecord[]): number {
+  const current = new Map<string, number>();
+  let best = 0;
+  for (const answer of answers) {
+    const streak = answer.correct ? (current.get(answer.gameId) ?? 0) + 1 : 0;
+    current.set(answer.gameId, streak);
+    best = Math.max(best, streak);
+  }
+  return best;
+}
+
+// Lifetime analytics from finished games and the per-answer history (answers in the order they were given)
+export function buildPlayerProfile(playerId: string, results: GameResult[], answers: AnswerRecord[]): PlayerProfile {
+  const answered = answers.filter(a => !a.skipped);
+  const byCategory = breakdown(answered, a => a.category);
+
+  const weakestCategories = byCategory
+    .filter(c => c.answered >= MIN_ANSWERS_FOR_WEAKNESS && c.accuracy < 100)
+    .sort((a, b) => a.accuracy - b.accuracy || b.answered - a.answered)
+    .slice(0, WEAKEST_CATEGORIES)
+    .map(c => c.name);
+
+  const games = results.length;
+  return {
+    playerId,
+    gamesPlayed: games,
+    questionsAnswered: answered.length,
+    questionsSkipped: answers.length - answered.length,
+    accuracy: percent(answered.filter(a => a.correct).length, answered.length),
+    bestScore: Math.max(0, ...results.map(r => r.score)),
+    bestStreak: longestStreak(answers),
+    averageHintsPerGame: games > 0 ? roundTo1(results.reduce((sum, r) => sum + r.hintsUsed, 0) / games) : 0,
+    averageSkipsPerGame: games > 0 ? roundTo1(results.reduce((sum, r) => sum + r.skipsUsed, 0) / games) : 0,
+    byCategory,
+    byDifficulty: breakdown(answered, a => a.difficulty),
+    weakestCategories
+  };
+}
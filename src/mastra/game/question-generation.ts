@@ -0,0 +1,97 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { questionWriterAgent } from '../agents/question-writer-agent';
+import type { Difficulty, Question } from '../questions';
+
+const GENERATION_TIMEOUT_MS = 60000;
+const VERIFICATION_TIMEOUT_MS = 20000;
+
+export interface QuestionDraftRequest {
+  sourceText: string;
+  count: number;
+  difficulty?: Difficulty;
+}
+
+// A question as the writer drafts it, before validation
+export const questionDraftSchema = z.object({
+  question: z.string(),
+  correct: z.string().describe('The answer the reference text states'),
+  distractors: z.array(z.string()).describe('Three plausible wrong answers the reference text does not support'),
+  difficulty: z.string().optional().describe('easy, medium or hard'),
+  explanation: z.string().optional().describe('One sentence from or about the text that supports the answer')
+});
+export type QuestionDraft = z.infer<typeof questionDraftSchema>;
+
+// The verification pass's verdict on one question
+export const questionCheckSchema = z.object({
+  answerSupported: z.boolean().describe('The reference text supports the correct answer'),
+  supportedDistractors: z.array(z.string()).describe('Wrong options the reference text also supports'),
+  reason: z.string().describe('Short justification, quoting the text where possible')
+});
+export type QuestionCheck = z.infer<typeof questionCheckSchema>;
+
+// The model behind generation: the question writer agent, or anything with the same generate() (a stub in tests).
+// The prompts and the checks on what comes back stay the same whichever writer is used.
+export interface QuestionWriter {
+  generate(
+    messages: { role: 'user'; content: string }[],
+    options: { structuredOutput: { schema: z.ZodType }; abortSignal?: AbortSignal }
+  ): Promise<{ object: unknown }>;
+}
+
+// Runtime context key for a writer to use instead of the question writer agent
+export const QUESTION_WRITER_CONTEXT_KEY = 'questionWriter';
+
+// The writer set in the runtime context, if it is one; the context can come from a client, so only a real
+// generate() function counts
+export function questionWriterFrom(runtimeContext: RuntimeContext | undefined): QuestionWriter {
+  const writer = runtimeContext?.get(QUESTION_WRITER_CONTEXT_KEY) as Partial<QuestionWriter> | undefined;
+  return typeof writer?.generate === 'function' ? (writer as QuestionWriter) : questionWriterAgent;
+}
+
+const draftsSchema = z.object({ questions: z.array(questionDraftSchema) });
+
+export async function draftQuestions(writer: QuestionWriter, request: QuestionDraftRequest): Promise<QuestionDraft[]> {
+  const prompt = [
+    `Write ${request.count} multiple-choice trivia questions from the reference text below.`,
+    request.difficulty ? `Aim for ${request.difficulty} questions.` : 'Mix easy, medium and hard questions.',
+    'Each question needs the correct answer and three distractors.',
+    `Reference text:\n"""\n${request.sourceText}\n"""`
+  ].join('\n\n');
+
+  const response = await writer.generate([{ role: 'user', content: prompt }], {
+    structuredOutput: { schema: draftsSchema },
+    abortSignal: AbortSignal.timeout(GENERATION_TIMEOUT_MS)
+  });
+  return draftsSchema.parse(response.object).questions;
+}
+
+export async function verifyQuestion(writer: QuestionWriter, sourceText: string, question: Question): Promise<QuestionCheck> {
+  const prompt = [
+    'Check this trivia question against the reference text only.',
+    `Question: ${question.question}`,
+    `Options: ${question.options.join(' | ')}`,
+    `Correct answer: ${question.correct}`,
+    'Does the text support the correct answer? Which of the other options does the text also support as an answer?',
+    `Reference text:\n"""\n${sourceText}\n"""`
+  ].join('\n');
+
+  const response = await writer.generate([{ role: 'user', content: prompt }], {
+    structuredOutput: { schema: questionCheckSchema },
+    abortSignal: AbortSignal.timeout(VERIFICATION_TIMEOUT_MS)
+  });
+  return questionCheckSchema.parse(response.object);
+}
+
+// Why a verified question should be dropped, or undefined if it passed
+export function checkRejection(question: Question, check: QuestionCheck): string | undefined {
+  if (!check.answerSupported) return `the reference text doesn't support the answer "${question.correct}": ${check.reason}`;
+  // Only count options that are actually distractors of this question
+  const supported = check.supportedDistractors.filter(option =>
+    question.options.some(candidate => candidate !== question.correct && candidate.toLowerCase() === option.trim().toLowerCase())
+  );
+  if (supported.length > 0) {
+    return `the reference text also supports ${supported.map(option => `"${option}"`).join(', ')}: ${check.reason}`;
+  }
+  return undefined;
+}
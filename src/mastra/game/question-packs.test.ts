@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { RawQuestion } from '../questions';
+import { InMemoryQuestionPackRepository } from '../storage';
+import { assertPackOwner, saveQuestionPack } from './question-packs';
+
+const now = new Date('2024-01-01T00:00:00Z');
+const question = (text: string): RawQuestion => ({
+  category: 'Space',
+  difficulty: 'easy',
+  question: text,
+  correct_answer: 'Mercury',
+  incorrect_answers: ['Venus', 'Mars', 'Earth']
+});
+
+describe('question pack ownership', () => {
+  it('lets only the owner replace a pack', async () => {
+    const repository = new InMemoryQuestionPackRepository();
+    await saveQuestionPack(repository, { name: 'Planets', questions: [question('Closest planet?')], ownerId: 'alice', now });
+
+    await expect(saveQuestionPack(repository, {
+      name: 'Planets', questions: [question('Hottest planet?')], replace: true, ownerId: 'bob', now
+    })).rejects.toMatchObject({ code: 'NOT_PACK_OWNER' });
+    expect((await repository.get('planets'))?.questions[0].question).toBe('Closest planet?');
+
+    const { pack, replaced } = await saveQuestionPack(repository, {
+      name: 'Planets', questions: [question('Hottest planet?')], replace: true, ownerId: 'alice', now
+    });
+    expect(replaced).toBe(true);
+    expect(pack.ownerId).toBe('alice');
+  });
+
+  it('keeps exports to the owner', async () => {
+    const repository = new InMemoryQuestionPackRepository();
+    const { pack } = await saveQuestionPack(repository, { name: 'Planets', questions: [question('Closest planet?')], ownerId: 'alice', now });
+
+    expect(() => assertPackOwner(pack, 'alice', 'export')).not.toThrow();
+    expect(() => assertPackOwner(pack, 'bob', 'export')).toThrow(expect.objectContaining({ code: 'NOT_PACK_OWNER' }));
+    expect(() => assertPackOwner(pack, undefined, 'export')).toThrow(expect.objectContaining({ code: 'NOT_PACK_OWNER' }));
+  });
+
+  it('leaves packs saved without a player open to everyone', async () => {
+    const repository = new InMemoryQuestionPackRepository();
+    const { pack } = await saveQuestionPack(repository, { name: 'Planets', questions: [question('Closest planet?')], now });
+
+    expect(() => assertPackOwner(pack, 'bob', 'export')).not.toThrow();
+    await expect(saveQuestionPack(repository, {
+      name: 'Planets', questions: [question('Hottest planet?')], replace: true, ownerId: 'bob', now
+    })).resolves.toMatchObject({ replaced: true });
+  });
+});
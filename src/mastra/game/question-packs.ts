@@ -0,0 +1,157 @@
+import { readFile, realpath } from 'node:fs/promises';
+import { isAbsolute, relative, resolve } from 'node:path';
+import {
+  describePackQuestions,
+  parseQuestionPack,
+  questionPackId,
+  QuestionPackFormatError,
+  sanitizeText,
+  type QuestionPack,
+  type QuestionPackFormat,
+  type QuestionPackIssue,
+  type RawQuestion
+} from '../questions';
+import type { QuestionPackRepository } from '../storage';
+import { GameError, type QuestionPackErrorCode } from './errors';
+
+export class QuestionPackError extends GameError {
+  declare readonly code: QuestionPackErrorCode;
+
+  constructor(
+    message: string,
+    code: QuestionPackErrorCode,
+    // Questions that were rejected, when the pack failed because none were left
+    public readonly issues: QuestionPackIssue[] = []
+  ) {
+    super(message, code);
+    this.name = 'QuestionPackError';
+  }
+}
+
+// The only directory pack files are read from by path, so a chat user can't make the server read other files
+export const questionPacksDir = resolve(process.cwd(), process.env.TRIVIA_PACKS_DIR ?? 'packs');
+
+function isInside(dir: string, file: string) {
+  const path = relative(dir, file);
+  return path !== '' && !path.startsWith('..') && !isAbsolute(path);
+}
+
+// Read a pack file given relative to the packs directory. Errors never echo what was (or wasn't) read.
+export async function readQuestionPackFile(path: string, dir: string = questionPacksDir): Promise<string> {
+  const outside = new QuestionPackError('Pack files must be given relative to the packs directory, without "..".', 'INVALID_PACK');
+  if (isAbsolute(path) || path.split(/[\\/]/).includes('..')) throw outside;
+
+  let file: string;
+  try {
+    // Resolve symlinks too, so a link can't point out of the directory
+    file = await realpath(resolve(dir, path));
+    if (!isInside(await realpath(dir), file)) throw outside;
+    return await readFile(file, 'utf8');
+  } catch (error) {
+    if (error === outside) throw error;
+    throw new QuestionPackError(`Couldn't read the pack file "${path}". Check that it is in the packs directory.`, 'INVALID_PACK');
+  }
+}
+
+export interface SaveQuestionPackOptions {
+  name: string;
+  author?: string;
+  description?: string;
+  // Already validated with checkRawQuestion()
+  questions: RawQuestion[];
+  // Replace an existing pack with the same name instead of failing
+  replace?: boolean;
+  // The player saving the pack, who becomes its owner
+  ownerId?: string;
+  now: Date;
+}
+
+export interface ImportQuestionPackOptions extends Omit<SaveQuestionPackOptions, 'name' | 'questions'> {
+  contents: string;
+  format: QuestionPackFormat;
+  // Override (or supply) the metadata declared in the file
+  name?: string;
+}
+
+// Store a set of validated questions as a pack
+export async function saveQuestionPack(repository: QuestionPackRepository, options: SaveQuestionPackOptions) {
+  const name = sanitizeText(options.name);
+  const id = questionPackId(name);
+  if (!id) throw new QuestionPackError('The pack needs a name: declare one in the file or pass it in.', 'INVALID_PACK');
+
+  const existing = await repository.get(id);
+  if (existing && !options.replace) {
+    throw new QuestionPackError(`A pack called "${existing.name}" already exists. Import with replace to overwrite it.`, 'PACK_EXISTS');
+  }
+  if (existing) assertPackOwner(existing, options.ownerId, 'replace');
+
+  const now = options.now.toISOString();
+  const pack: QuestionPack = {
+    id,
+    name,
+    author: sanitizeText(options.author) || undefined,
+    description: sanitizeText(options.description) || undefined,
+    ...describePackQuestions(options.questions),
+    questions: options.questions,
+    ownerId: existing?.ownerId ?? options.ownerId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  await repository.save(pack);
+  return { pack, replaced: existing !== null };
+}
+
+// Validate a pack file and store it. Questions that fail validation are left out and reported.
+export async function importQuestionPack(repository: QuestionPackRepository, options: ImportQuestionPackOptions) {
+  let parsed;
+  try {
+    parsed = parseQuestionPack(options.contents, options.format);
+  } catch (error) {
+    if (error instanceof QuestionPackFormatError) throw new QuestionPackError(error.message, 'INVALID_PACK');
+    throw error;
+  }
+
+  const name = options.name ?? parsed.name ?? '';
+  if (parsed.questions.length === 0) {
+    throw new QuestionPackError(`None of the questions in "${sanitizeText(name) || 'the pack'}" could be imported.`, 'INVALID_PACK', parsed.issues);
+  }
+
+  const { pack, replaced } = await saveQuestionPack(repository, {
+    name,
+    author: options.author ?? parsed.author,
+    description: options.description ?? parsed.description,
+    questions: parsed.questions,
+    replace: options.replace,
+    ownerId: options.ownerId,
+    now: options.now
+  });
+  return { pack, issues: parsed.issues, replaced };
+}
+
+// Look a pack up by id or by name as the player typed it
+export async function getQuestionPack(repository: QuestionPackRepository, nameOrId: string) {
+  const pack = await repository.get(questionPackId(nameOrId));
+  if (!pack) throw new QuestionPackError(`There's no question pack called "${nameOrId}".`, 'PACK_NOT_FOUND');
+  return pack;
+}
+
+// Packs hold their answers, so only the owner can replace or export one. Packs saved without a known player have no owner.
+export function assertPackOwner(pack: QuestionPack, playerId: string | undefined, action: 'replace' | 'export') {
+  if (pack.ownerId !== undefined && pack.ownerId !== playerId) {
+    throw new QuestionPackError(`The ${pack.name} pack belongs to another player, so only they can ${action} it.`, 'NOT_PACK_OWNER');
+  }
+}
+
+// Pack metadata for listings, without the questions
+export function summarizeQuestionPack(pack: QuestionPack) {
+  return {
+    id: pack.id,
+    name: pack.name,
+    author: pack.author,
+    description: pack.description,
+    categories: pack.categories,
+    difficulty: pack.difficulty,
+    questionCount: pack.questions.length,
+    updatedAt: pack.updatedAt
+  };
+}
@@ -0,0 +1,47 @@
+import type { Difficulty } from '../questions';
+import type { PlayerRatingRepository } from '../storage';
+
+// Elo-style skill rating: players gain more for beating hard questions and lose more for missing easy ones
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32;
+
+export const questionRatings: Record<Difficulty, number> = {
+  easy: 1000,
+  medium: 1200,
+  hard: 1400
+};
+
+export function expectedScore(playerRating: number, questionRating: number): number {
+  return 1 / (1 + Math.pow(10, (questionRating - playerRating) / 400));
+}
+
+// New rating after answering a question of the given difficulty
+export function updateRating(rating: number, difficulty: string, correct: boolean): number {
+  const questionRating = questionRatings[difficulty as Difficulty] ?? questionRatings.medium;
+  const expected = expectedScore(rating, questionRating);
+  return Math.round(rating + K_FACTOR * ((correct ? 1 : 0) - expected));
+}
+
+// Apply one answer to the player's stored rating; returns the rating before and after
+export async function recordRatedAnswer(
+  repository: PlayerRatingRepository,
+  playerId: string,
+  difficulty: string,
+  correct: boolean,
+  now: Date
+) {
+  const stored = await repository.get(playerId);
+  const before = stored?.rating ?? DEFAULT_RATING;
+  const after = updateRating(before, difficulty, correct);
+  await repository.save({
+    playerId,
+    rating: after,
+    questionsRated: (stored?.questionsRated ?? 0) + 1,
+    updatedAt: now.toISOString()
+  });
+  return { before, after };
+}
+
+export async function getRating(repository: PlayerRatingRepository, playerId: string): Promise<number> {
+  return (await repository.get(playerId))?.rating ?? DEFAULT_RATING;
+}
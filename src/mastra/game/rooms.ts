@@ -0,0 +1,182 @@
+import type { Question } from '../questions';
+import { invalidAnswerReason, judgeAnswer } from './answers';
+import { GameError, type RoomErrorCode } from './errors';
+import { basePointsFor, getScoringRules, streakBonus, type ScoringPresetName } from './scoring';
+import { issueQuestion, matchesQuestion, measureAnswer, speedBonus } from './timing';
+import type { Room, RoomAnswer, RoomPlayer, RoomRoundSummary } from './types';
+
+export const MAX_ROOM_PLAYERS = 8;
+
+// Unambiguous characters only (no 0/O, 1/I)
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class RoomError extends GameError {
+  declare readonly code: RoomErrorCode;
+
+  constructor(message: string, code: RoomErrorCode) {
+    super(message, code);
+    this.name = 'RoomError';
+  }
+}
+
+export function generateRoomCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function newPlayer(playerId: string, now: Date): RoomPlayer {
+  return { playerId, score: 0, streak: 0, correctAnswers: 0, joinedAt: now.toISOString(), answers: {} };
+}
+
+export function createRoom(options: {
+  code: string;
+  hostId: string;
+  scoringPreset: ScoringPresetName;
+  timeLimitSeconds: number;
+  questionsCount: number;
+  now: Date;
+}): Room {
+  return {
+    code: options.code,
+    hostId: options.hostId,
+    status: 'lobby',
+    scoringPreset: options.scoringPreset,
+    timeLimitSeconds: options.timeLimitSeconds,
+    questionsCount: options.questionsCount,
+    players: [newPlayer(options.hostId, options.now)],
+    questions: [],
+    currentQuestionIndex: 0,
+    createdAt: options.now.toISOString()
+  };
+}
+
+export function findPlayer(room: Room, playerId: string): RoomPlayer {
+  const player = room.players.find(p => p.playerId === playerId);
+  if (!player) throw new RoomError(`${playerId} is not in room ${room.code}.`, 'NOT_A_MEMBER');
+  return player;
+}
+
+export function joinRoom(room: Room, playerId: string, now: Date) {
+  if (room.players.some(p => p.playerId === playerId)) return;
+  if (room.status !== 'lobby') throw new RoomError(`Room ${room.code} has already started.`, 'WRONG_STATUS');
+  if (room.players.length >= MAX_ROOM_PLAYERS) {
+    throw new RoomError(`Room ${room.code} is full (${MAX_ROOM_PLAYERS} players).`, 'ROOM_FULL');
+  }
+  room.players.push(newPlayer(playerId, now));
+}
+
+// Only the host can start a room, and only from the lobby
+export function assertCanStartRoom(room: Room, playerId: string) {
+  if (room.hostId !== playerId) throw new RoomError('Only the host can start the game.', 'NOT_HOST');
+  if (room.status !== 'lobby') throw new RoomError(`Room ${room.code} has already started.`, 'WRONG_STATUS');
+}
+
+export function startRoomGame(room: Room, playerId: string, questions: Question[], now: Date) {
+  assertCanStartRoom(room, playerId);
+  room.status = 'playing';
+  room.questions = questions;
+  room.currentQuestionIndex = 0;
+  issueQuestion(questions[0], now);
+}
+
+export function currentRoomQuestion(room: Room): Question | undefined {
+  return room.status === 'playing' ? room.questions[room.currentQuestionIndex] : undefined;
+}
+
+// The round is over once every member has answered or the timer has run out
+export function isRoundDue(room: Room, now: Date): boolean {
+  const question = currentRoomQuestion(room);
+  if (!question) return false;
+  const everyoneAnswered = room.players.every(p => p.answers[question.id]);
+  return everyoneAnswered || measureAnswer(question, room.timeLimitSeconds, now).timedOut;
+}
+
+// Reject moves made against a question the room has already moved past
+export function assertCurrentRoomQuestion(room: Room, questionToken: string) {
+  const question = currentRoomQuestion(room);
+  if (question && !matchesQuestion(question, questionToken)) {
+    throw new RoomError('That question is over. Answer the current question instead.', 'STALE_QUESTION');
+  }
+}
+
+export function submitRoomAnswer(room: Room, playerId: string, answer: string, questionToken: string, now: Date): RoomAnswer {
+  const question = currentRoomQuestion(room);
+  if (!question) throw new RoomError(`Room ${room.code} is not playing a question.`, 'WRONG_STATUS');
+  assertCurrentRoomQuestion(room, questionToken);
+  const player = findPlayer(room, playerId);
+  if (player.answers[question.id]) {
+    throw new RoomError('You have already answered this question. Waiting for the others!', 'ALREADY_ANSWERED');
+  }
+  // Rejected before judging, so the player can still answer this round
+  const invalidReason = invalidAnswerReason(question, answer);
+  if (invalidReason) throw new RoomError(invalidReason, 'INVALID_ANSWER');
+
+  const rules = getScoringRules(room.scoringPreset);
+  const timing = measureAnswer(question, room.timeLimitSeconds, now);
+  const correct = !timing.timedOut && judgeAnswer(question, answer);
+
+  let points = 0;
+  if (correct) {
+    player.streak += 1;
+    player.correctAnswers += 1;
+    points = basePointsFor(rules, question.difficulty) +
+      streakBonus(rules, player.streak) +
+      speedBonus(timing, rules, room.timeLimitSeconds);
+    player.score += points;
+  } else {
+    player.streak = 0;
+  }
+
+  const result: RoomAnswer = { answer, correct, timedOut: timing.timedOut, points, answeredAt: now.toISOString() };
+  player.answers[question.id] = result;
+  return result;
+}
+
+// Close the current round: members who didn't answer time out, then move to the next question
+export function closeRound(room: Room, now: Date): RoomRoundSummary {
+  const question = currentRoomQuestion(room);
+  if (!question) throw new RoomError(`Room ${room.code} is not playing a question.`, 'WRONG_STATUS');
+
+  const summary: RoomRoundSummary = {
+    questionNumber: room.currentQuestionIndex + 1,
+    question: question.question,
+    correctAnswer: question.correct,
+    results: room.players.map(player => {
+      const answer = player.answers[question.id];
+      if (!answer) player.streak = 0;
+      return {
+        playerId: player.playerId,
+        answered: !!answer,
+        correct: answer?.correct ?? false,
+        timedOut: answer ? answer.timedOut : true,
+        points: answer?.points ?? 0
+      };
+    })
+  };
+
+  question.answered = true;
+  room.lastRound = summary;
+  room.currentQuestionIndex += 1;
+  if (room.currentQuestionIndex >= room.questions.length) {
+    room.status = 'finished';
+  } else {
+    issueQuestion(room.questions[room.currentQuestionIndex], now);
+  }
+  return summary;
+}
+
+export function rankRoomPlayers(room: Room) {
+  return [...room.players]
+    .sort((a, b) => b.score - a.score || b.correctAnswers - a.correctAnswers)
+    .map((player, index) => ({
+      rank: index + 1,
+      playerId: player.playerId,
+      score: player.score,
+      streak: player.streak,
+      correctAnswers: player.correctAnswers,
+      isHost: player.playerId === room.hostId
+    }));
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Question } from '../questions';
+import { basePointsFor, getScoringRules, maxPossibleScore, scoringPresets, streakBonus } from './scoring';
+
+describe('scoring rules', () => {
+  const rules = scoringPresets.standard;
+
+  it('weights base points by difficulty', () => {
+    expect(basePointsFor(rules, 'easy')).toBe(10);
+    expect(basePointsFor(rules, 'medium')).toBe(15);
+    expect(basePointsFor(rules, 'hard')).toBe(20);
+    expect(basePointsFor(rules, 'unknown')).toBe(10);
+  });
+
+  it('adds the streak bonus for every few answers in a row', () => {
+    expect(streakBonus(rules, 2)).toBe(0);
+    expect(streakBonus(rules, 3)).toBe(2);
+    expect(streakBonus(rules, 6)).toBe(4);
+    expect(streakBonus(scoringPresets.competitive, 4)).toBe(6);
+  });
+
+  it('counts base points, streak and speed bonuses in the best possible score', () => {
+    const questions = ['easy', 'hard'].map(difficulty => ({ difficulty }) as Question);
+    expect(maxPossibleScore(rules, questions)).toBe(10 + 20 + 2 * rules.maxSpeedBonus);
+    expect(maxPossibleScore(rules, questions, false)).toBe(30);
+  });
+});
+
+describe('getScoringRules', () => {
+  afterEach(() => {
+    delete process.env.TRIVIA_TIME_LIMIT_SECONDS;
+  });
+
+  it('uses the preset, falling back to standard', () => {
+    expect(getScoringRules('casual').timeLimitSeconds).toBe(60);
+    expect(getScoringRules('nope' as never).name).toBe('standard');
+  });
+
+  it('lets TRIVIA_TIME_LIMIT_SECONDS override the timer with whole seconds', () => {
+    process.env.TRIVIA_TIME_LIMIT_SECONDS = '45';
+    expect(getScoringRules('competitive').timeLimitSeconds).toBe(45);
+    process.env.TRIVIA_TIME_LIMIT_SECONDS = '0';
+    expect(getScoringRules('competitive').timeLimitSeconds).toBe(0);
+  });
+
+  it('ignores a TRIVIA_TIME_LIMIT_SECONDS that is not whole seconds', () => {
+    for (const value of ['', 'soon', '-5', '2.5']) {
+      process.env.TRIVIA_TIME_LIMIT_SECONDS = value;
+      expect(getScoringRules('competitive').timeLimitSeconds).toBe(20);
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import type { Question } from '../questions';
+import type { TimingConfig } from './timing';
+import type { LifelineName } from './types';
+
+// How often a lifeline can be used per game and the points it costs each time
+export interface LifelineRule {
+  limit: number;
+  penalty: number;
+}
+
+export interface LifelineRules extends Record<LifelineName, LifelineRule> {
+  'extra-time': LifelineRule & { seconds: number };
+}
+
+// All scoring constants for a game; the tools and the agent instructions both read from here
+export interface ScoringRules extends TimingConfig {
+  name: string;
+  questionsPerGame: number;
+  basePoints: number;
+  difficultyMultipliers: Record<string, number>;
+  // A correct answer earns `bonus` extra points for every `every` answers in the current streak
+  streak: { every: number; bonus: number };
+  lifelines: LifelineRules;
+  skips: { limit: number; penalty: number };
+}
+
+export const scoringPresets = {
+  standard: {
+    name: 'standard',
+    questionsPerGame: 10,
+    basePoints: 10,
+    difficultyMultipliers: { easy: 1, medium: 1.5, hard: 2 },
+    streak: { every: 3, bonus: 2 },
+    lifelines: {
+      'fifty-fifty': { limit: 3, penalty: 2 },
+      'ask-the-audience': { limit: 1, penalty: 3 },
+      'extra-time': { limit: 2, penalty: 1, seconds: 15 },
+      'double-or-nothing': { limit: 1, penalty: 0 }
+    },
+    skips: { limit: 2, penalty: 1 },
+    timeLimitSeconds: 30,
+    maxSpeedBonus: 5
+  },
+  casual: {
+    name: 'casual',
+    questionsPerGame: 10,
+    basePoints: 10,
+    difficultyMultipliers: { easy: 1, medium: 1.25, hard: 1.5 },
+    streak: { every: 3, bonus: 2 },
+    lifelines: {
+      'fifty-fifty': { limit: 5, penalty: 1 },
+      'ask-the-audience': { limit: 2, penalty: 1 },
+      'extra-time': { limit: 3, penalty: 0, seconds: 30 },
+      'double-or-nothing': { limit: 2, penalty: 0 }
+    },
+    skips: { limit: 3, penalty: 0 },
+    timeLimitSeconds: 60,
+    maxSpeedBonus: 2
+  },
+  competitive: {
+    name: 'competitive',
+    questionsPerGame: 10,
+    basePoints: 10,
+    difficultyMultipliers: { easy: 1, medium: 2, hard: 3 },
+    streak: { every: 2, bonus: 3 },
+    lifelines: {
+      'fifty-fifty': { limit: 1, penalty: 5 },
+      'ask-the-audience': { limit: 1, penalty: 5 },
+      'extra-time': { limit: 1, penalty: 3, seconds: 10 },
+      'double-or-nothing': { limit: 1, penalty: 0 }
+    },
+    skips: { limit: 1, penalty: 3 },
+    timeLimitSeconds: 20,
+    maxSpeedBonus: 10
+  }
+} satisfies Record<string, ScoringRules>;
+
+export type ScoringPresetName = keyof typeof scoringPresets;
+export const scoringPresetNames = Object.keys(scoringPresets) as [ScoringPresetName, ...ScoringPresetName[]];
+
+function isPresetName(name: string | undefined): name is ScoringPresetName {
+  return !!name && name in scoringPresets;
+}
+
+// Preset used when a game doesn't pick one (TRIVIA_SCORING_PRESET, default "standard")
+export const defaultScoringPreset: ScoringPresetName = isPresetName(process.env.TRIVIA_SCORING_PRESET)
+  ? process.env.TRIVIA_SCORING_PRESET
+  : 'standard';
+
+export function getScoringRules(preset: ScoringPresetName = defaultScoringPreset): ScoringRules {
+  const rules: ScoringRules = scoringPresets[preset] ?? scoringPresets.standard;
+  // TRIVIA_TIME_LIMIT_SECONDS overrides the preset's timer for every game
+  const timeLimit = envTimeLimit();
+  return timeLimit === undefined ? rules : { ...rules, timeLimitSeconds: timeLimit };
+}
+
+// TRIVIA_TIME_LIMIT_SECONDS as whole seconds (0 turns the timer off); anything else leaves the preset's timer
+function envTimeLimit(): number | undefined {
+  const value = process.env.TRIVIA_TIME_LIMIT_SECONDS?.trim();
+  return value && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+export function difficultyMultiplier(rules: ScoringRules, difficulty: string): number {
+  return rules.difficultyMultipliers[difficulty] ?? 1;
+}
+
+// Streak bonus for an answer that brings the streak to `streak`
+export function streakBonus(rules: ScoringRules, streak: number): number {
+  return streak >= rules.streak.every ? Math.floor(streak / rules.streak.every) * rules.streak.bonus : 0;
+}
+
+export function basePointsFor(rules: ScoringRules, difficulty: string): number {
+  return Math.round(rules.basePoints * difficultyMultiplier(rules, difficulty));
+}
+
+// Best possible score for a question set: every answer correct and instant, no lifelines or skips
+export function maxPossibleScore(rules: ScoringRules, questions: Question[], timed = rules.timeLimitSeconds > 0): number {
+  return questions.reduce(
+    (total, q, index) =>
+      total + basePointsFor(rules, q.difficulty) + streakBonus(rules, index + 1) + (timed ? rules.maxSpeedBonus : 0),
+    0
+  );
+}
+
+function formatLifeline(name: string, rule: LifelineRule, effect: string) {
+  return `- ${name}: ${rule.limit} per game, costs ${formatPoints(rule.penalty)} each (${effect})`;
+}
+
+function describeLifelines(lifelines: LifelineRules): string[] {
+  return [
+    formatLifeline('50/50 hint', lifelines['fifty-fifty'], 'removes two wrong options, or gives a letter clue for free-text questions'),
+    formatLifeline('Ask the audience', lifelines['ask-the-audience'], 'a simulated audience vote, less reliable on harder questions'),
+    formatLifeline('Extra time', lifelines['extra-time'], `+${lifelines['extra-time'].seconds} seconds on the current question`),
+    formatLifeline('Double or nothing', lifelines['double-or-nothing'], 'double points for a correct answer, the streak is lost on a miss')
+  ];
+}
+
+function formatMultiplier(value: number) {
+  return `${value}x`;
+}
+
+function formatPoints(value: number) {
+  return value === 1 ? '1 point' : `${value} points`;
+}
+
+// One-line summary for intros and presentations
+export function summarizeRules(rules: ScoringRules): string {
+  return `${rules.questionsPerGame} questions, ${rules.skips.limit} skips, lifelines (50/50, ask the audience, extra time, ` +
+    `double or nothing), streak bonuses` +
+    (rules.timeLimitSeconds > 0 ? `, ${rules.timeLimitSeconds}s per question` : '');
+}
+
+// Rules section of the agent instructions, generated so it can't drift from the scoring code
+export function describeRules(rules: ScoringRules, indent = ''): string {
+  const multipliers = Object.entries(rules.difficultyMultipliers)
+    .map(([difficulty, value]) => `${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)} (${formatMultiplier(value)})`)
+    .join(', ');
+
+  const lines = [
+    `- Scoring preset: ${rules.name}`,
+    `- Each game has ${rules.questionsPerGame} questions by default`,
+    `- Base points: ${rules.basePoints} per correct answer`,
+    `- Difficulty multipliers: ${multipliers}`,
+    `- Streak bonuses: +${rules.streak.bonus} points every ${rules.streak.every} consecutive correct answers`,
+    ...describeLifelines(rules.lifelines),
+    `- Skips: ${rules.skips.limit} per game, costs ${formatPoints(rules.skips.penalty)} each (resets streak)`
+  ];
+  if (rules.timeLimitSeconds > 0) {
+    lines.push(
+      `- Timer: each question has a time limit (${rules.timeLimitSeconds} seconds by default); late answers count as timeouts and score nothing`,
+      `- Speed bonus: up to +${rules.maxSpeedBonus} points for fast correct answers, scaled by the time remaining`
+    );
+  }
+  lines.push('- Final scores are reported out of the best possible score for that game\'s questions');
+  return lines.map(line => `${indent}${line}`).join('\n');
+}
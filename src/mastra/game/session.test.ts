@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { gameStateRepository } from '../storage';
+import { resetClock, setClock } from './clock';
+import { resetExplanationGenerator, setExplanationGenerator } from './explanations';
+import { answerQuestion, getCurrentQuestion, skipQuestion, startGame, useLifeline } from './session';
+
+let now = new Date('2026-03-01T12:00:00.000Z');
+
+beforeAll(() => {
+  setClock({ now: () => now });
+  setExplanationGenerator({ explain: async () => 'Explained.' });
+});
+
+afterAll(() => {
+  resetClock();
+  resetExplanationGenerator();
+});
+
+async function startPractice(playerId: string) {
+  const started = await startGame({ playerId, questionsCount: 3 });
+  if (!started.success) throw new Error(started.message);
+  return started.currentQuestion!.questionToken;
+}
+
+async function correctAnswer(playerId: string) {
+  const state = await gameStateRepository.get(playerId);
+  return state!.questions[state!.currentQuestionIndex].correct;
+}
+
+describe('question tokens', () => {
+  it('accepts an answer carrying the current question token', async () => {
+    const token = await startPractice('token-ok');
+    now = new Date(now.getTime() + 5000);
+
+    const result = await answerQuestion('token-ok', await correctAnswer('token-ok'), token);
+    expect(result).toMatchObject({ success: true, correct: true });
+  });
+
+  it('rejects a token from another question without using up the current one', async () => {
+    await startPractice('token-wrong');
+
+    const result = await answerQuestion('token-wrong', await correctAnswer('token-wrong'), 'not-the-token');
+    expect(result).toMatchObject({ success: false, code: 'STALE_QUESTION' });
+
+    const current = await getCurrentQuestion('token-wrong');
+    expect(current).toMatchObject({ success: true, score: 0, currentQuestion: { index: 1 } });
+  });
+
+  it('rejects a replayed answer instead of landing it on the next question', async () => {
+    const token = await startPractice('token-replay');
+    const answer = await correctAnswer('token-replay');
+    expect(await answerQuestion('token-replay', answer, token)).toMatchObject({ success: true });
+
+    expect(await answerQuestion('token-replay', answer, token)).toMatchObject({ success: false, code: 'STALE_QUESTION' });
+    expect(await skipQuestion('token-replay', token)).toMatchObject({ success: false, code: 'STALE_QUESTION' });
+    expect(await useLifeline('token-replay', 'extra-time', token)).toMatchObject({ success: false, code: 'STALE_QUESTION' });
+  });
+
+  it('binds lifelines to the question they were asked for', async () => {
+    const token = await startPractice('token-lifeline');
+
+    expect(await useLifeline('token-lifeline', 'extra-time', 'not-the-token')).toMatchObject({ success: false, code: 'STALE_QUESTION' });
+    expect(await useLifeline('token-lifeline', 'extra-time', token)).toMatchObject({ success: true, used: 1 });
+  });
+
+  it('lets only one of two moves made together save', async () => {
+    const token = await startPractice('token-race');
+    const answer = await correctAnswer('token-race');
+
+    const results = await Promise.all([answerQuestion('token-race', answer, token), skipQuestion('token-race', token)]);
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.filter(result => !result.success)).toEqual([expect.objectContaining({ code: 'STALE_QUESTION' })]);
+  });
+});
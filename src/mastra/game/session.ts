@@ -0,0 +1,918 @@
+import { randomUUID } from 'node:crypto';
+import { awardAchievements, describeBadge } from './achievements';
+import { adaptCurrentQuestion, createAdaptiveGame, fetchAdaptivePool, recordAdaptiveResult } from './adaptive';
+import { invalidAnswerReason, judgeAnswer } from './answers';
+import { categoryCatalog } from './categories';
+import { getClock } from './clock';
+import { getDailyQuestions } from './daily-challenge';
+import { GameError, withGameErrors } from './errors';
+import { publishGameEvent } from './events';
+import { explainQuestion } from './explanations';
+import { fetchUnseenQuestions, preferUnseen, SEEN_HISTORY_LIMIT } from './fresh-questions';
+import {
+  endGame,
+  expireIfIdle,
+  isGameOver,
+  lifecycleConfig,
+  pauseGameState,
+  resumeGameState,
+  touchGame,
+  upgradeGameState
+} from './lifecycle';
+import { buildGameResult, toUtcDate } from './leaderboard';
+import { applyLifeline, lifelineLabels, noLifelinesUsed, summarizeLifelines } from './lifelines';
+import { getRating, recordRatedAnswer, updateRating } from './rating';
+import {
+  basePointsFor,
+  defaultScoringPreset,
+  getScoringRules,
+  maxPossibleScore,
+  streakBonus,
+  type ScoringPresetName
+} from './scoring';
+import { issueQuestion, matchesQuestion, measureAnswer, speedBonus } from './timing';
+import { claimMatch, matchToPlay, recordMatchEntry, setMatchQuestions, TournamentError } from './tournaments';
+import type { GameState, LifelineName, StartableGameMode, TournamentMatch } from './types';
+import {
+  packQuestionProvider,
+  questionFingerprint,
+  questionPackId,
+  questionProvider,
+  type Difficulty,
+  type Question,
+  type QuestionProvider,
+  type QuestionType
+} from '../questions';
+import {
+  achievementRepository,
+  answerHistoryRepository,
+  dailyChallengeRepository,
+  explanationRepository,
+  gameResultRepository,
+  gameStateRepository,
+  playerRatingRepository,
+  questionPackRepository,
+  seenQuestionRepository,
+  tournamentRepository
+} from '../storage';
+import { toQuestionPayload, type QuestionPayload } from '../tools/question-payload';
+
+// Solo game operations, shared by the game tools and the trivia workflow
+
+export interface StartGameOptions {
+  playerId: string;
+  mode?: StartableGameMode;
+  scoring?: ScoringPresetName;
+  questionType?: QuestionType | 'mixed';
+  questionsCount?: number;
+  timeLimitSeconds?: number;
+  category?: string;
+  difficulty?: Difficulty;
+  adaptive?: boolean;
+  // Practice only: play an imported question pack (by name or id) instead of the regular sources
+  pack?: string;
+}
+
+// Record the finished game so it counts towards the historical leaderboards; forfeited and expired games never do
+async function recordCompletedGame(gameState: GameState, now: Date) {
+  if (gameState.status !== 'completed') return;
+  await gameResultRepository.record(buildGameResult(gameState, now));
+}
+
+// Check the achievement rules after an answer or skip (once it's recorded); returns the badges it unlocked
+async function unlockAchievements(gameState: GameState, question: Question, gameCompleted: boolean, now: Date) {
+  const [answers, results] = await Promise.all([
+    answerHistoryRepository.list(gameState.playerId),
+    gameCompleted ? gameResultRepository.list({ playerId: gameState.playerId }) : []
+  ]);
+  return awardAchievements(
+    achievementRepository,
+    { gameState, question, gameCompleted, answers, results, today: toUtcDate(now) },
+    now
+  );
+}
+
+// Report a finished tournament game to its match. Returns a line for the player about the match, if any.
+async function settleTournamentGame(gameState: GameState, now: Date) {
+  if (!gameState.tournament || !isGameOver(gameState.status)) return undefined;
+  const { code, matchId } = gameState.tournament;
+  const entry = {
+    gameId: gameState.gameId,
+    score: gameState.score,
+    correctAnswers: gameState.correctAnswers,
+    forfeited: gameState.status !== 'completed',
+    finishedAt: now.toISOString()
+  };
+  const updated = await tournamentRepository.update(code, tournament => recordMatchEntry(tournament, matchId, gameState.playerId, entry, now));
+  const match = updated?.result;
+  return updated && match ? describeMatch(match, gameState.playerId, updated.tournament.championId, updated.tournament.name) : undefined;
+}
+
+function describeMatch(match: TournamentMatch, playerId: string, championId: string | undefined, tournamentName: string) {
+  const opponent = match.players.find(id => id !== playerId);
+  if (!opponent) return undefined;
+  if (match.status === 'pending') return `🏟️ Match recorded! Waiting for ${opponent} to play their side.`;
+
+  const [mine, theirs] = [match.entries[playerId]?.score ?? 0, match.entries[opponent]?.score ?? 0];
+  // Knockout ties go to the better seed
+  const score = `${mine}-${theirs}${mine === theirs && !match.draw ? ', decided on seeding' : ''}`;
+  let line = match.draw
+    ? `🤝 Your round ${match.round} match against ${opponent} ended in a draw (${score}).`
+    : match.winnerId === playerId
+      ? `🏆 You won your round ${match.round} match against ${opponent} (${score})!`
+      : `Your round ${match.round} match went to ${opponent} (${score}).`;
+  if (championId) line += ` 🎉 ${championId} is the champion of ${tournamentName}!`;
+  return line;
+}
+
+// Starting another game ends the unfinished one as abandoned rather than overwriting it. An unfinished daily
+// challenge uses up the day's attempt, and a tournament game forfeits that match. Returns a line for the player.
+async function abandonUnfinishedGame(playerId: string, now: Date, keepMatchId?: string) {
+  const previous = await findGame(playerId, now);
+  if (!previous || isGameOver(previous.status)) return undefined;
+  if (keepMatchId && previous.tournament?.matchId === keepMatchId) return undefined;
+  endGame(previous, 'abandoned', now);
+  await saveGame(previous);
+  const matchUpdate = await settleTournamentGame(previous, now);
+
+  if (previous.mode === 'daily') return "🏳️ Your unfinished daily challenge was forfeited, so today's attempt is used up.";
+  if (previous.tournament) return `🏳️ Your unfinished tournament match was forfeited.${matchUpdate ? ` ${matchUpdate}` : ''}`;
+  return `🏳️ Your unfinished game ended with ${previous.score} points.`;
+}
+
+// Log the outcome of a question for the player's lifetime profile, and remember it so later games avoid it
+async function recordAnswerHistory(gameState: GameState, question: Question, now: Date) {
+  await seenQuestionRepository.markSeen(gameState.playerId, [questionFingerprint(question.question)], now.toISOString());
+  await answerHistoryRepository.record({
+    gameId: gameState.gameId,
+    playerId: gameState.playerId,
+    mode: gameState.mode,
+    questionId: question.id,
+    category: question.category,
+    difficulty: question.difficulty,
+    questionType: question.type,
+    correct: question.answeredCorrectly ?? false,
+    skipped: question.skipped ?? false,
+    timedOut: question.timedOut ?? false,
+    hintsUsed: question.hintsUsed ?? 0,
+    answeredAt: now.toISOString()
+  });
+}
+
+// Player-facing view of the current question
+function presentQuestion(gameState: GameState, now: Date) {
+  const index = gameState.currentQuestionIndex;
+  return toQuestionPayload(gameState.questions[index], index, gameState.timeLimitSeconds, now);
+}
+
+function questionIssuedEvent(gameState: GameState, question: QuestionPayload) {
+  return {
+    type: 'question-issued' as const,
+    playerId: gameState.playerId,
+    gameId: gameState.gameId,
+    totalQuestions: gameState.questions.length,
+    question
+  };
+}
+
+// Present the current question and tell event stream clients it's up; call once the game is saved
+function announceQuestion(gameState: GameState, now: Date) {
+  const question = presentQuestion(gameState, now);
+  publishGameEvent(questionIssuedEvent(gameState, question));
+  return question;
+}
+
+// After an answer or skip: the next question is up, or the game is over
+function announceNextStep(gameState: GameState, nextQuestion: QuestionPayload | undefined) {
+  if (nextQuestion) {
+    publishGameEvent(questionIssuedEvent(gameState, nextQuestion));
+  } else if (gameState.status === 'completed') {
+    publishGameEvent({
+      type: 'game-completed',
+      playerId: gameState.playerId,
+      gameId: gameState.gameId,
+      score: gameState.score,
+      correctAnswers: gameState.correctAnswers,
+      totalQuestions: gameState.questions.length
+    });
+  }
+}
+
+// Save the game over the version it was loaded at. If another move on the same game was saved first (say from
+// the chat and a REST client at once), this one is refused rather than overwriting it.
+async function saveGame(gameState: GameState) {
+  if (!(await gameStateRepository.save(gameState))) {
+    throw new GameError('Another move on this game landed first. Check the current question and try again.', 'STALE_QUESTION');
+  }
+}
+
+const DAILY_LIMIT_MESSAGE = "📅 You've already played today's daily challenge. Come back tomorrow, or start a practice game!";
+
+// The player's latest game, in any state. Idle games expire here, the next time anyone looks at them.
+async function findGame(playerId: string, now: Date) {
+  const gameState = await gameStateRepository.get(playerId);
+  if (!gameState) return null;
+  upgradeGameState(gameState);
+  if (expireIfIdle(gameState, now)) {
+    await saveGame(gameState);
+    await settleTournamentGame(gameState, now);
+  }
+  return gameState;
+}
+
+async function loadGame(playerId: string, now: Date) {
+  const gameState = await findGame(playerId, now);
+  if (!gameState) throw new GameError('No active game found. Start a new game to play.', 'NO_ACTIVE_GAME');
+  return gameState;
+}
+
+function assertNotOver(gameState: GameState) {
+  switch (gameState.status) {
+    case 'completed':
+      throw new GameError('This game is already over. Start a new game to keep playing.', 'GAME_COMPLETED');
+    case 'abandoned':
+      throw new GameError('You forfeited this game. Start a new game to play again.', 'GAME_ABANDONED');
+    case 'expired':
+      throw new GameError('This game expired after sitting idle too long. Start a new game to play again.', 'GAME_EXPIRED');
+  }
+}
+
+// The player's game and the question waiting for an answer
+async function loadPlayableGame(playerId: string, now: Date) {
+  const gameState = await loadGame(playerId, now);
+  assertNotOver(gameState);
+  if (gameState.status === 'paused') {
+    throw new GameError('Your game is paused. Resume it to keep playing.', 'GAME_PAUSED');
+  }
+  const currentQuestion = gameState.questions[gameState.currentQuestionIndex];
+  if (!currentQuestion) {
+    throw new GameError('This game is already over. Start a new game to keep playing.', 'GAME_COMPLETED');
+  }
+  return { gameState, currentQuestion };
+}
+
+// Answers and skips carry the question's token, so a late or replayed move can't land on the next question
+function assertCurrentQuestion(gameState: GameState, question: Question, questionToken: string) {
+  if (!matchesQuestion(question, questionToken)) {
+    throw new GameError(
+      `That move was for a question that's no longer open. Question ${gameState.currentQuestionIndex + 1} is waiting.`,
+      'STALE_QUESTION'
+    );
+  }
+}
+
+function unknownCategoryMessage(category: string, suggestions: string[]) {
+  return suggestions.length > 0
+    ? `🤔 There's no "${category}" category. Did you mean ${suggestions.map(s => `"${s}"`).join(' or ')}?`
+    : `🤔 There's no "${category}" category. Ask for the category list to see what's available.`;
+}
+
+// Start (or, for the daily challenge, resume) a game and issue its first question
+export async function startGame(options: StartGameOptions) {
+  const { playerId, mode = 'practice', questionType = 'multiple' } = options;
+  // The daily challenge must be the same for everyone, so it never adapts
+  const adaptive = mode === 'practice' && (options.adaptive ?? false);
+  const difficulty = mode === 'practice' && !adaptive ? options.difficulty : undefined;
+  // Daily challenge players all compete under the same default rules
+  const scoringPreset = mode === 'daily' ? defaultScoringPreset : options.scoring ?? defaultScoringPreset;
+  const rules = getScoringRules(scoringPreset);
+  const questionsCount = options.questionsCount ?? rules.questionsPerGame;
+  const timeLimitSeconds = mode === 'daily' ? rules.timeLimitSeconds : options.timeLimitSeconds ?? rules.timeLimitSeconds;
+  const now = getClock().now();
+  const today = now.toISOString().split('T')[0];
+
+  return withGameErrors(async () => {
+    const gameId = randomUUID();
+
+    if (mode === 'daily') {
+      const attempt = await dailyChallengeRepository.getAttempt(today, playerId);
+      if (attempt) {
+        // Let the player pick up an unfinished daily game, but never start a second one
+        const existing = await findGame(playerId, now);
+        if (!existing || existing.gameId !== attempt.gameId || isGameOver(existing.status)) {
+          throw new GameError(DAILY_LIMIT_MESSAGE, 'DAILY_LIMIT_REACHED');
+        }
+        if (existing.status === 'paused') resumeGameState(existing, now);
+        else touchGame(existing, now);
+        await saveGame(existing);
+
+        return {
+          success: true as const,
+          message: `📅 Resuming today's daily challenge at question ${existing.currentQuestionIndex + 1}.`,
+          mode,
+          adaptive,
+          currentQuestion: announceQuestion(existing, now),
+          totalQuestions: existing.questions.length
+        };
+      }
+    }
+
+    // A question pack replaces the regular sources for the game
+    const pack = mode === 'practice' && options.pack
+      ? await questionPackRepository.get(questionPackId(options.pack))
+      : null;
+    if (mode === 'practice' && options.pack && !pack) {
+      throw new GameError(`📦 There's no question pack called "${options.pack}". Ask for the pack list to see what's available.`, 'UNKNOWN_PACK');
+    }
+    const provider: QuestionProvider = pack ? packQuestionProvider(pack) : questionProvider;
+
+    // Resolve what the player typed to a category the sources (or the pack) know
+    let category: string | undefined;
+    if (pack && options.category) {
+      category = pack.categories.find(name => name.toLowerCase() === options.category!.trim().toLowerCase());
+      if (!category) {
+        return {
+          success: false as const,
+          code: 'UNKNOWN_CATEGORY' as const,
+          message: `🤔 The ${pack.name} pack has no "${options.category}" category. It has: ${pack.categories.join(', ')}.`,
+          suggestions: pack.categories
+        };
+      }
+    } else if (mode === 'practice' && options.category) {
+      const lookup = await categoryCatalog.resolve(options.category, now);
+      if (!lookup.found) {
+        return {
+          success: false as const,
+          code: 'UNKNOWN_CATEGORY' as const,
+          message: unknownCategoryMessage(options.category, lookup.suggestions),
+          suggestions: lookup.suggestions
+        };
+      }
+      category = lookup.category.name;
+    }
+
+    // Daily games share a seeded set per date; practice games fetch questions the player hasn't seen yet
+    const type = questionType === 'mixed' ? undefined : questionType;
+    const seen = mode === 'practice'
+      ? new Set(await seenQuestionRepository.listRecent(playerId, SEEN_HISTORY_LIMIT))
+      : new Set<string>();
+    const adaptiveGame = adaptive
+      ? createAdaptiveGame(
+          preferUnseen(
+            await fetchAdaptivePool(provider, questionsCount, { category, type, sessionKey: playerId }),
+            seen,
+            questionsCount
+          ),
+          questionsCount
+        )
+      : undefined;
+    const questions = adaptiveGame
+      ? adaptiveGame.questions
+      : mode === 'daily'
+        ? await getDailyQuestions(today, dailyChallengeRepository, questionProvider)
+        : await fetchUnseenQuestions(
+            provider,
+            { amount: questionsCount, category, difficulty, type, sessionKey: playerId },
+            seen
+          );
+
+    if (mode === 'daily') {
+      const claimed = await dailyChallengeRepository.claimAttempt({
+        date: today,
+        playerId,
+        gameId,
+        startedAt: now.toISOString()
+      });
+      if (!claimed) {
+        throw new GameError(DAILY_LIMIT_MESSAGE, 'DAILY_LIMIT_REACHED');
+      }
+    }
+
+    const abandoned = await abandonUnfinishedGame(playerId, now);
+
+    // Initialize or reset game state
+    const gameState: GameState = {
+      gameId,
+      playerId,
+      mode,
+      status: 'active',
+      scoringPreset,
+      score: 0,
+      currentQuestionIndex: 0,
+      questions,
+      streak: 0,
+      correctAnswers: 0,
+      hintsUsed: 0,
+      skipsUsed: 0,
+      lifelinesUsed: noLifelinesUsed(),
+      timeLimitSeconds,
+      adaptive: adaptiveGame?.adaptive,
+      questionPack: pack?.id,
+      startedAt: now.toISOString(),
+      lastPlayed: today,
+      lastActivityAt: now.toISOString()
+    };
+
+    if (adaptive) adaptCurrentQuestion(gameState, await getRating(playerRatingRepository, playerId));
+    issueQuestion(gameState.questions[0], now);
+    await saveGame(gameState);
+
+    return {
+      success: true as const,
+      message: (abandoned ? `${abandoned} ` : '') + (mode === 'daily'
+        ? `📅 Welcome to the Daily Challenge for ${today}! Everyone gets the same ${questions.length} questions and you have one shot. Good luck!`
+        : `🎯 Welcome to Trivia Practice! You have ${questions.length} ${category ? `${category} ` : ''}questions${pack ? ` from the ${pack.name} pack` : ''} to answer.${adaptive ? ' Difficulty adapts as you play.' : ''} Good luck!`),
+      mode,
+      adaptive,
+      category,
+      difficulty,
+      pack: pack?.name,
+      currentQuestion: announceQuestion(gameState, now),
+      totalQuestions: questions.length
+    };
+  });
+}
+
+// Start (or resume) the player's side of their current tournament match. Both players get the match's
+// shared questions in their own game, played with the regular answer, lifeline and skip moves.
+export async function startTournamentMatch(playerId: string, tournamentCode: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const tournament = await tournamentRepository.get(tournamentCode);
+    if (!tournament) {
+      throw new TournamentError(`Tournament ${tournamentCode} doesn't exist. Check the code.`, 'TOURNAMENT_NOT_FOUND');
+    }
+    let match = matchToPlay(tournament, playerId);
+    const opponent = match.players.find(id => id !== playerId)!;
+
+    const existing = await findGame(playerId, now);
+    if (existing?.tournament?.matchId === match.id && existing.tournament.code === tournamentCode && !isGameOver(existing.status)) {
+      if (existing.status === 'paused') resumeGameState(existing, now);
+      else touchGame(existing, now);
+      await saveGame(existing);
+
+      return {
+        success: true as const,
+        message: `🏟️ Back to your round ${match.round} match against ${opponent}, question ${existing.currentQuestionIndex + 1}.`,
+        tournamentName: tournament.name,
+        round: match.round,
+        matchId: match.id,
+        opponent,
+        currentQuestion: announceQuestion(existing, now),
+        totalQuestions: existing.questions.length
+      };
+    }
+
+    // The first player to start the match fetches its questions; the opponent gets the same set
+    if (match.questions.length === 0) {
+      const fetched = await questionProvider.fetchQuestions({ amount: tournament.questionsPerMatch, type: 'multiple' });
+      const matchId = match.id;
+      await tournamentRepository.update(tournamentCode, t => setMatchQuestions(t, matchId, fetched));
+    }
+    const claimed = await tournamentRepository.update(tournamentCode, t => claimMatch(t, playerId, randomUUID()));
+    if (!claimed) {
+      throw new TournamentError(`Tournament ${tournamentCode} doesn't exist. Check the code.`, 'TOURNAMENT_NOT_FOUND');
+    }
+    match = claimed.result;
+
+    const abandoned = await abandonUnfinishedGame(playerId, now, match.id);
+
+    const rules = getScoringRules(tournament.scoringPreset);
+    const gameState: GameState = {
+      gameId: match.gameIds[playerId],
+      playerId,
+      mode: 'tournament',
+      status: 'active',
+      scoringPreset: tournament.scoringPreset,
+      score: 0,
+      currentQuestionIndex: 0,
+      questions: structuredClone(match.questions),
+      streak: 0,
+      correctAnswers: 0,
+      hintsUsed: 0,
+      skipsUsed: 0,
+      lifelinesUsed: noLifelinesUsed(),
+      timeLimitSeconds: rules.timeLimitSeconds,
+      tournament: { code: tournamentCode, matchId: match.id },
+      startedAt: now.toISOString(),
+      lastPlayed: now.toISOString().split('T')[0],
+      lastActivityAt: now.toISOString()
+    };
+    issueQuestion(gameState.questions[0], now);
+    await saveGame(gameState);
+
+    return {
+      success: true as const,
+      message: (abandoned ? `${abandoned} ` : '') + `🏟️ ${tournament.name}, round ${match.round}: you vs ${opponent}! ` +
+        `You both get the same ${gameState.questions.length} questions, and the higher score wins.`,
+      tournamentName: tournament.name,
+      round: match.round,
+      matchId: match.id,
+      opponent,
+      currentQuestion: announceQuestion(gameState, now),
+      totalQuestions: gameState.questions.length
+    };
+  });
+}
+
+// Judge and score an answer to the current question, then move on
+export async function answerQuestion(playerId: string, answer: string, questionToken: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const { gameState, currentQuestion } = await loadPlayableGame(playerId, now);
+    assertCurrentQuestion(gameState, currentQuestion, questionToken);
+
+    // Answers that can't be judged ("E", a blank) are bounced back without using up the question
+    const invalidReason = invalidAnswerReason(currentQuestion, answer);
+    if (invalidReason) throw new GameError(invalidReason, 'INVALID_ANSWER');
+
+    const rules = getScoringRules(gameState.scoringPreset);
+
+    // Answers that arrive after the time limit count as timeouts
+    const timing = measureAnswer(currentQuestion, gameState.timeLimitSeconds, now);
+
+    // Check the answer with the rules for this question type
+    let isCorrect = judgeAnswer(currentQuestion, answer);
+    if (timing.timedOut) isCorrect = false;
+
+    // Update game state
+    currentQuestion.answered = true;
+    currentQuestion.userAnswer = answer;
+    currentQuestion.answeredCorrectly = isCorrect;
+    currentQuestion.timedOut = timing.timedOut;
+
+    let scoreGained = 0;
+    let bonusForSpeed = 0;
+    let lostStreak = 0;
+    let message = '';
+
+    if (isCorrect) {
+      gameState.streak += 1;
+      gameState.correctAnswers += 1;
+      
+      // Base points with difficulty multiplier, plus the streak bonus
+      const bonusForStreak = streakBonus(rules, gameState.streak);
+
+      // Faster answers earn more, scaled by the time left on the clock
+      bonusForSpeed = speedBonus(timing, rules, gameState.timeLimitSeconds);
+
+      scoreGained = basePointsFor(rules, currentQuestion.difficulty) + bonusForStreak + bonusForSpeed;
+      if (currentQuestion.doubleOrNothing) scoreGained *= 2;
+      gameState.score += scoreGained;
+
+      message = `✅ Correct! +${scoreGained} points. `;
+      if (currentQuestion.doubleOrNothing) {
+        message += '🎲 Double or nothing paid off! ';
+      }
+      if (bonusForStreak > 0) {
+        message += `🔥 Streak bonus: +${bonusForStreak}! `;
+      }
+      if (bonusForSpeed > 0) {
+        message += `⚡ Speed bonus: +${bonusForSpeed}! `;
+      }
+      message += `Current streak: ${gameState.streak}.`;
+    } else if (timing.timedOut) {
+      if (currentQuestion.doubleOrNothing && gameState.streak > 0) lostStreak = gameState.streak;
+      gameState.streak = 0;
+      message = `⏰ Time's up! You took ${Math.round(timing.responseSeconds)}s (limit ${gameState.timeLimitSeconds}s). The correct answer was: ${currentQuestion.correct}`;
+    } else {
+      if (currentQuestion.doubleOrNothing && gameState.streak > 0) lostStreak = gameState.streak;
+      gameState.streak = 0;
+      message = `❌ Incorrect. The correct answer was: ${currentQuestion.correct}`;
+    }
+    if (lostStreak > 0) message += `\n🎲 Double or nothing: your streak of ${lostStreak} is gone.`;
+    currentQuestion.pointsEarned = scoreGained;
+
+    // Teach something with every answer; generated explanations are cached per question
+    const explanation = await explainQuestion(currentQuestion, explanationRepository);
+    currentQuestion.explanation = explanation;
+    if (explanation) message += `\n📖 ${explanation}`;
+
+    recordAdaptiveResult(gameState, isCorrect);
+
+    // Move to next question
+    gameState.currentQuestionIndex += 1;
+    const gameCompleted = gameState.currentQuestionIndex >= gameState.questions.length;
+    touchGame(gameState, now);
+    if (gameCompleted) endGame(gameState, 'completed', now);
+
+    let nextQuestion = undefined;
+    if (!gameCompleted) {
+      // The next pick follows the rating this answer leads to; the rating itself is stored once the move is saved
+      if (gameState.adaptive) {
+        adaptCurrentQuestion(gameState, updateRating(await getRating(playerRatingRepository, playerId), currentQuestion.difficulty, isCorrect));
+      }
+      // Start the next question's clock now, not when the answer arrived: explaining it may have taken a while
+      const issuedAt = getClock().now();
+      issueQuestion(gameState.questions[gameState.currentQuestionIndex], issuedAt);
+      nextQuestion = presentQuestion(gameState, issuedAt);
+    } else {
+      message += `\n\n🎉 Game Completed! Final Score: ${gameState.score}/${maxPossibleScore(rules, gameState.questions, gameState.timeLimitSeconds > 0)}`;
+    }
+
+    await saveGame(gameState);
+    // Every answer moves the player's persistent rating
+    const rating = await recordRatedAnswer(playerRatingRepository, playerId, currentQuestion.difficulty, isCorrect, now);
+    await recordAnswerHistory(gameState, currentQuestion, now);
+    if (gameCompleted) {
+      await recordCompletedGame(gameState, now);
+      const matchUpdate = await settleTournamentGame(gameState, now);
+      if (matchUpdate) message += `\n${matchUpdate}`;
+    }
+    const achievements = await unlockAchievements(gameState, currentQuestion, gameCompleted, now);
+    for (const badge of achievements) message += `\n${describeBadge(badge)}`;
+
+    publishGameEvent({
+      type: 'question-answered',
+      playerId,
+      gameId: gameState.gameId,
+      questionNumber: gameState.currentQuestionIndex,
+      correct: isCorrect,
+      timedOut: timing.timedOut,
+      correctAnswer: currentQuestion.correct,
+      pointsEarned: scoreGained,
+      score: gameState.score,
+      streak: gameState.streak,
+      achievements
+    });
+    announceNextStep(gameState, nextQuestion);
+
+    return {
+      success: true as const,
+      correct: isCorrect,
+      timedOut: timing.timedOut,
+      responseSeconds: Math.round(timing.responseSeconds * 10) / 10,
+      speedBonus: bonusForSpeed,
+      pointsEarned: scoreGained,
+      score: gameState.score,
+      message,
+      correctAnswer: currentQuestion.correct,
+      explanation,
+      streak: gameState.streak,
+      rating: rating.after,
+      ratingChange: rating.after - rating.before,
+      nextQuestion,
+      gameCompleted,
+      achievements
+    };
+  });
+}
+
+// Use a lifeline on the current question, charging its cost
+export async function useLifeline(playerId: string, lifeline: LifelineName, questionToken: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const { gameState, currentQuestion } = await loadPlayableGame(playerId, now);
+    assertCurrentQuestion(gameState, currentQuestion, questionToken);
+
+    const rules = getScoringRules(gameState.scoringPreset);
+    const rule = rules.lifelines[lifeline];
+    const used = gameState.lifelinesUsed[lifeline];
+
+    if (used >= rule.limit) {
+      throw new GameError(`You have used all your ${lifelineLabels[lifeline]} lifelines for this game.`, 'LIFELINE_EXHAUSTED');
+    }
+
+    // Lifelines that can't help with this question throw here, before anything is charged
+    const effect = applyLifeline(gameState, currentQuestion, lifeline, rules.lifelines, now);
+
+    // Apply penalty
+    const penalty = rule.penalty;
+    gameState.score = Math.max(0, gameState.score - penalty);
+    gameState.lifelinesUsed[lifeline] = used + 1;
+    if (lifeline === 'fifty-fifty') {
+      gameState.hintsUsed += 1;
+      currentQuestion.hintsUsed = (currentQuestion.hintsUsed ?? 0) + 1;
+    }
+    touchGame(gameState, now);
+
+    await saveGame(gameState);
+
+    return {
+      success: true as const,
+      lifeline,
+      ...effect,
+      message: penalty > 0 ? `${effect.message} (-${penalty} points)` : effect.message,
+      used: used + 1,
+      remaining: rule.limit - used - 1,
+      scorePenalty: penalty
+    };
+  });
+}
+
+// Skip the current question for a penalty
+export async function skipQuestion(playerId: string, questionToken: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const { gameState, currentQuestion } = await loadPlayableGame(playerId, now);
+    assertCurrentQuestion(gameState, currentQuestion, questionToken);
+
+    const rules = getScoringRules(gameState.scoringPreset);
+
+    if (gameState.skipsUsed >= rules.skips.limit) {
+      throw new GameError('You have used all available skips for this game.', 'SKIPS_EXHAUSTED');
+    }
+
+    // Apply penalty
+    const penalty = rules.skips.penalty;
+    gameState.score = Math.max(0, gameState.score - penalty);
+    gameState.skipsUsed += 1;
+    gameState.streak = 0;
+    currentQuestion.skipped = true;
+
+    // Move to next question
+    gameState.currentQuestionIndex += 1;
+    const gameCompleted = gameState.currentQuestionIndex >= gameState.questions.length;
+    touchGame(gameState, now);
+    if (gameCompleted) endGame(gameState, 'completed', now);
+
+    let nextQuestion = undefined;
+    if (!gameCompleted) {
+      // Skips don't change the rating, but the next pick still follows it
+      if (gameState.adaptive) adaptCurrentQuestion(gameState, await getRating(playerRatingRepository, playerId));
+      const issuedAt = getClock().now();
+      issueQuestion(gameState.questions[gameState.currentQuestionIndex], issuedAt);
+      nextQuestion = presentQuestion(gameState, issuedAt);
+    }
+
+    await saveGame(gameState);
+    await recordAnswerHistory(gameState, currentQuestion, now);
+    if (gameCompleted) await recordCompletedGame(gameState, now);
+    const matchUpdate = gameCompleted ? await settleTournamentGame(gameState, now) : undefined;
+    // Skips can still finish a game, which is when most badges are decided
+    const achievements = await unlockAchievements(gameState, currentQuestion, gameCompleted, now);
+
+    let message = gameCompleted 
+      ? `⏭️ Question skipped. Game completed! Final score: ${gameState.score}${matchUpdate ? `\n${matchUpdate}` : ''}`
+      : `⏭️ Question skipped. (-${penalty} points)`;
+    for (const badge of achievements) message += `\n${describeBadge(badge)}`;
+
+    publishGameEvent({
+      type: 'question-skipped',
+      playerId,
+      gameId: gameState.gameId,
+      questionNumber: gameState.currentQuestionIndex,
+      score: gameState.score,
+      achievements
+    });
+    announceNextStep(gameState, nextQuestion);
+
+    return {
+      success: true as const,
+      message,
+      nextQuestion,
+      skipsUsed: gameState.skipsUsed,
+      scorePenalty: penalty,
+      achievements
+    };
+  });
+}
+
+// Put the game on hold; the question clock stops until it's resumed
+export async function pauseGame(playerId: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const gameState = await loadGame(playerId, now);
+    assertNotOver(gameState);
+
+    if (gameState.status === 'active') {
+      pauseGameState(gameState, now);
+      await saveGame(gameState);
+    }
+
+    return {
+      success: true as const,
+      message: `⏸️ Game paused at question ${gameState.currentQuestionIndex + 1} of ${gameState.questions.length}. ` +
+        `Resume within ${lifecycleConfig.pausedHours} hours to keep your score.`,
+      status: gameState.status,
+      score: gameState.score
+    };
+  });
+}
+
+// Pick a paused game back up at the question it was paused on
+export async function resumeGame(playerId: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const gameState = await loadGame(playerId, now);
+    assertNotOver(gameState);
+
+    if (gameState.status === 'paused') resumeGameState(gameState, now);
+    else touchGame(gameState, now);
+    await saveGame(gameState);
+
+    return {
+      success: true as const,
+      message: `▶️ Back in the game! Question ${gameState.currentQuestionIndex + 1} of ${gameState.questions.length}, score ${gameState.score}.`,
+      status: gameState.status,
+      score: gameState.score,
+      currentQuestion: announceQuestion(gameState, now),
+      totalQuestions: gameState.questions.length
+    };
+  });
+}
+
+// The question waiting for an answer, e.g. for a client that reconnects. Looking doesn't count as a move.
+export async function getCurrentQuestion(playerId: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const { gameState } = await loadPlayableGame(playerId, now);
+
+    return {
+      success: true as const,
+      gameId: gameState.gameId,
+      mode: gameState.mode,
+      score: gameState.score,
+      currentQuestion: presentQuestion(gameState, now),
+      totalQuestions: gameState.questions.length
+    };
+  });
+}
+
+// Give up the current game. It ends as abandoned and never reaches the leaderboards.
+export async function forfeitGame(playerId: string) {
+  return withGameErrors(async () => {
+    const now = getClock().now();
+    const gameState = await loadGame(playerId, now);
+    assertNotOver(gameState);
+
+    endGame(gameState, 'abandoned', now);
+    await saveGame(gameState);
+    const matchUpdate = await settleTournamentGame(gameState, now);
+
+    return {
+      success: true as const,
+      message: `🏳️ Game forfeited with ${gameState.score} points after ${gameState.currentQuestionIndex} of ${gameState.questions.length} questions. ` +
+        (gameState.tournament ? `Your tournament match counts as lost.${matchUpdate ? ` ${matchUpdate}` : ''}` : "It won't count towards the leaderboards."),
+      status: gameState.status,
+      score: gameState.score
+    };
+  });
+}
+
+// Progress of the current game plus the player's rating
+export async function getGameStats(playerId: string) {
+  return withGameErrors(async () => {
+    const gameState = await loadGame(playerId, getClock().now());
+
+    // Use the verdict stored at submission time instead of re-judging the answer
+    const answeredQuestions = gameState.questions.filter(q => q.answered);
+    const correctAnswers = answeredQuestions.filter(q => q.answeredCorrectly).length;
+
+    const accuracy = answeredQuestions.length > 0 ? (correctAnswers / answeredQuestions.length) * 100 : 0;
+
+    return {
+      success: true as const,
+      playerId,
+      score: gameState.score,
+      currentQuestion: gameState.currentQuestionIndex + 1,
+      totalQuestions: gameState.questions.length,
+      streak: gameState.streak,
+      hintsUsed: gameState.hintsUsed,
+      skipsUsed: gameState.skipsUsed,
+      lifelines: summarizeLifelines(gameState, getScoringRules(gameState.scoringPreset).lifelines),
+      correctAnswers,
+      accuracy: Math.round(accuracy),
+      rating: await getRating(playerRatingRepository, playerId),
+      adaptive: Boolean(gameState.adaptive),
+      status: gameState.status
+    };
+  });
+}
+
+// Letter answers are shown with the option they picked
+function describeAnswer(question: Question, answer: string | undefined) {
+  if (!answer) return undefined;
+  const letter = answer.trim().toUpperCase();
+  const option = question.type === 'multiple' && /^[A-D]$/.test(letter) ? question.options[letter.charCodeAt(0) - 65] : undefined;
+  return option ? `${letter}. ${option}` : answer;
+}
+
+// Every question played so far with the player's answer, the correct answer and an explanation
+export async function reviewGame(playerId: string) {
+  return withGameErrors(async () => {
+    const gameState = await loadGame(playerId, getClock().now());
+
+    // Questions not played yet stay hidden
+    const played = gameState.questions.slice(0, gameState.currentQuestionIndex);
+    // One at a time: uncached explanations each cost a model call, and a long game shouldn't fire them all at once
+    const questions = [];
+    for (const [index, q] of played.entries()) {
+      questions.push({
+        number: index + 1,
+        question: q.question,
+        category: q.category,
+        difficulty: q.difficulty,
+        yourAnswer: describeAnswer(q, q.userAnswer),
+        correctAnswer: q.correct,
+        correct: q.answeredCorrectly ?? false,
+        points: q.pointsEarned ?? 0,
+        hintsUsed: q.hintsUsed ?? 0,
+        skipped: q.skipped ?? false,
+        timedOut: q.timedOut ?? false,
+        explanation: await explainQuestion(q, explanationRepository)
+      });
+    }
+
+    return {
+      success: true as const,
+      gameId: gameState.gameId,
+      mode: gameState.mode,
+      status: gameState.status,
+      gameCompleted: gameState.currentQuestionIndex >= gameState.questions.length,
+      score: gameState.score,
+      totalQuestions: gameState.questions.length,
+      questions
+    };
+  });
+}
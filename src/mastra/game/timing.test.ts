@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Question } from '../questions';
+import { scoringPresets } from './scoring';
+import { issueQuestion, matchesQuestion, measureAnswer, remainingSeconds, speedBonus } from './timing';
+
+const issuedAt = new Date('2026-03-01T12:00:00.000Z');
+const after = (seconds: number) => new Date(issuedAt.getTime() + seconds * 1000);
+
+function question(overrides: Partial<Question> = {}): Question {
+  return {
+    id: 'q-1',
+    type: 'multiple',
+    category: 'Science',
+    difficulty: 'medium',
+    question: 'What is H2O?',
+    options: ['Water', 'Salt', 'Sugar', 'Iron'],
+    correct: 'Water',
+    answered: false,
+    issuedAt: issuedAt.toISOString(),
+    ...overrides
+  };
+}
+
+describe('measureAnswer', () => {
+  it('measures the response against the time limit', () => {
+    expect(measureAnswer(question(), 30, after(12))).toEqual({ responseSeconds: 12, remainingSeconds: 18, timedOut: false });
+  });
+
+  it('times out answers that arrive after the limit', () => {
+    expect(measureAnswer(question(), 30, after(31))).toMatchObject({ remainingSeconds: 0, timedOut: true });
+  });
+
+  it('counts extra time bought for the question', () => {
+    expect(measureAnswer(question({ extraSeconds: 15 }), 30, after(40))).toMatchObject({ remainingSeconds: 5, timedOut: false });
+  });
+
+  it('never times out an untimed game', () => {
+    expect(measureAnswer(question(), 0, after(3600)).timedOut).toBe(false);
+  });
+});
+
+describe('speedBonus', () => {
+  const rules = scoringPresets.standard;
+
+  it('scales the bonus with the time left', () => {
+    expect(speedBonus(measureAnswer(question(), 30, after(0)), rules, 30)).toBe(rules.maxSpeedBonus);
+    expect(speedBonus(measureAnswer(question(), 30, after(15)), rules, 30)).toBe(Math.round(rules.maxSpeedBonus / 2));
+    expect(speedBonus(measureAnswer(question(), 30, after(30)), rules, 30)).toBe(0);
+  });
+
+  it('gives nothing for a timeout or an untimed game', () => {
+    expect(speedBonus(measureAnswer(question(), 30, after(45)), rules, 30)).toBe(0);
+    expect(speedBonus(measureAnswer(question(), 0, after(1)), rules, 0)).toBe(0);
+  });
+
+  it('tops out at the maximum with extra time on the clock', () => {
+    const timing = measureAnswer(question({ extraSeconds: 15 }), 30, after(1));
+    expect(speedBonus(timing, rules, 30)).toBe(rules.maxSpeedBonus);
+  });
+});
+
+describe('remainingSeconds', () => {
+  it('rounds up the seconds left and stops at zero', () => {
+    expect(remainingSeconds(question(), 30, after(10.5))).toBe(20);
+    expect(remainingSeconds(question(), 30, after(60))).toBe(0);
+    expect(remainingSeconds(question(), 0, after(1))).toBeUndefined();
+  });
+});
+
+describe('issueQuestion', () => {
+  it('restarts the clock with a new nonce', () => {
+    const q = question({ issuedAt: undefined });
+    issueQuestion(q, after(5));
+    const firstNonce = q.nonce;
+    expect(q.issuedAt).toBe(after(5).toISOString());
+    expect(matchesQuestion(q, firstNonce)).toBe(true);
+
+    issueQuestion(q, after(10));
+    expect(matchesQuestion(q, firstNonce)).toBe(false);
+  });
+});
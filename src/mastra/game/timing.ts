@@ -0,0 +1,59 @@
+import { randomUUID } from 'node:crypto';
+import type { Question } from '../questions';
+
+export interface TimingConfig {
+  // Seconds allowed per question; 0 disables the timer
+  timeLimitSeconds: number;
+  // Bonus for an instant correct answer, scaled down linearly to 0 at the time limit
+  maxSpeedBonus: number;
+}
+
+export interface AnswerTiming {
+  responseSeconds: number;
+  remainingSeconds: number;
+  timedOut: boolean;
+}
+
+// Start the question's clock and give it a fresh nonce that answers must echo back
+export function issueQuestion(question: Question, now: Date) {
+  question.issuedAt = now.toISOString();
+  question.nonce = randomUUID();
+}
+
+// Whether a move was made on this question; games saved before nonces existed accept any token
+export function matchesQuestion(question: Question, questionToken: string | undefined): boolean {
+  return !question.nonce || question.nonce === questionToken;
+}
+
+// The game's time limit plus any extra time bought for this question; 0 stays untimed
+export function questionTimeLimit(question: Question, timeLimitSeconds: number): number {
+  return timeLimitSeconds > 0 ? timeLimitSeconds + (question.extraSeconds ?? 0) : 0;
+}
+
+// Seconds left on the question's timer (undefined when untimed or not yet issued)
+export function remainingSeconds(question: Question, timeLimitSeconds: number, now: Date): number | undefined {
+  const limit = questionTimeLimit(question, timeLimitSeconds);
+  if (limit <= 0 || !question.issuedAt) return undefined;
+  const elapsed = (now.getTime() - Date.parse(question.issuedAt)) / 1000;
+  return Math.max(0, Math.ceil(limit - elapsed));
+}
+
+export function measureAnswer(question: Question, gameTimeLimitSeconds: number, now: Date): AnswerTiming {
+  const timeLimitSeconds = questionTimeLimit(question, gameTimeLimitSeconds);
+  const issuedAt = question.issuedAt ? Date.parse(question.issuedAt) : now.getTime();
+  const responseSeconds = Math.max(0, (now.getTime() - issuedAt) / 1000);
+  if (timeLimitSeconds <= 0) {
+    return { responseSeconds, remainingSeconds: 0, timedOut: false };
+  }
+  return {
+    responseSeconds,
+    remainingSeconds: Math.max(0, timeLimitSeconds - responseSeconds),
+    timedOut: responseSeconds > timeLimitSeconds
+  };
+}
+
+export function speedBonus(timing: AnswerTiming, config: TimingConfig, timeLimitSeconds: number): number {
+  if (timeLimitSeconds <= 0 || timing.timedOut) return 0;
+  // Extra time can leave more than the base limit on the clock; the bonus still tops out at the maximum
+  return Math.round(config.maxSpeedBonus * Math.min(1, timing.remainingSeconds / timeLimitSeconds));
+}
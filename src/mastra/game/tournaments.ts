@@ -0,0 +1,359 @@
+import type { Question } from '../questions';
+import { GameError, type TournamentErrorCode } from './errors';
+import type { ScoringPresetName } from './scoring';
+import type {
+  MatchEntry,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSeeding
+} from './types';
+
+export const MAX_TOURNAMENT_PLAYERS = 32;
+
+// Round-robin table points
+const POINTS_FOR_WIN = 3;
+const POINTS_FOR_DRAW = 1;
+
+export class TournamentError extends GameError {
+  declare readonly code: TournamentErrorCode;
+
+  constructor(message: string, code: TournamentErrorCode) {
+    super(message, code);
+    this.name = 'TournamentError';
+  }
+}
+
+export function createTournament(options: {
+  code: string;
+  name: string;
+  organizerId: string;
+  format: TournamentFormat;
+  seedBy: TournamentSeeding;
+  scoringPreset: ScoringPresetName;
+  questionsPerMatch: number;
+  now: Date;
+}): Tournament {
+  return {
+    code: options.code,
+    name: options.name,
+    organizerId: options.organizerId,
+    format: options.format,
+    seedBy: options.seedBy,
+    status: 'registration',
+    scoringPreset: options.scoringPreset,
+    questionsPerMatch: options.questionsPerMatch,
+    players: [],
+    rounds: [],
+    currentRound: 0,
+    createdAt: options.now.toISOString()
+  };
+}
+
+export function registerPlayer(tournament: Tournament, playerId: string, now: Date) {
+  if (tournament.players.some(p => p.playerId === playerId)) return;
+  if (tournament.status !== 'registration') {
+    throw new TournamentError(`Registration for ${tournament.name} has closed.`, 'WRONG_STATUS');
+  }
+  if (tournament.players.length >= MAX_TOURNAMENT_PLAYERS) {
+    throw new TournamentError(`${tournament.name} is full (${MAX_TOURNAMENT_PLAYERS} players).`, 'TOURNAMENT_FULL');
+  }
+  tournament.players.push({ playerId, registeredAt: now.toISOString() });
+}
+
+// Seed 1 goes to the highest rating or score; ties keep registration order
+function seedPlayers(players: TournamentPlayer[], seedValues: Record<string, number>) {
+  const ranked = players
+    .map((player, order) => ({ player, order, value: seedValues[player.playerId] ?? 0 }))
+    .sort((a, b) => b.value - a.value || a.order - b.order);
+  ranked.forEach(({ player, value }, index) => {
+    player.seed = index + 1;
+    player.seedValue = value;
+  });
+}
+
+function seedOf(tournament: Tournament, playerId: string): number {
+  return tournament.players.find(p => p.playerId === playerId)?.seed ?? Number.MAX_SAFE_INTEGER;
+}
+
+// Bracket positions for `size` seeds so the top seeds meet as late as possible: 8 -> 1,8,4,5,2,7,3,6
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, next - seed]);
+  }
+  return order;
+}
+
+// Circle method: the first player stays put and the rest rotate; an odd field gets a bye each round
+export function roundRobinPairings(playerIds: string[]): string[][][] {
+  const field: (string | undefined)[] = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, undefined];
+  const rounds: string[][][] = [];
+  for (let round = 0; round < field.length - 1; round++) {
+    const pairs: string[][] = [];
+    for (let i = 0; i < field.length / 2; i++) {
+      const pair = [field[i], field[field.length - 1 - i]].filter((id): id is string => id !== undefined);
+      pairs.push(pair);
+    }
+    rounds.push(pairs);
+    field.splice(1, 0, field.pop());
+  }
+  return rounds;
+}
+
+function newMatch(round: number, index: number, players: string[], now: Date): TournamentMatch {
+  const match: TournamentMatch = {
+    id: `r${round}-m${index + 1}`,
+    round,
+    players,
+    questions: [],
+    gameIds: {},
+    entries: {},
+    status: 'pending'
+  };
+  // A bye goes straight through
+  if (players.length === 1) {
+    match.status = 'finished';
+    match.winnerId = players[0];
+    match.entries[players[0]] = { gameId: '', score: 0, correctAnswers: 0, forfeited: false, finishedAt: now.toISOString() };
+  }
+  return match;
+}
+
+// Close registration, seed the field and draw the first round (all rounds for round-robin)
+export function startTournament(tournament: Tournament, playerId: string, seedValues: Record<string, number>, now: Date) {
+  if (tournament.organizerId !== playerId) {
+    throw new TournamentError('Only the organizer can start the tournament.', 'NOT_ORGANIZER');
+  }
+  if (tournament.status !== 'registration') {
+    throw new TournamentError(`${tournament.name} has already started.`, 'WRONG_STATUS');
+  }
+  if (tournament.players.length < 2) {
+    throw new TournamentError('A tournament needs at least two registered players.', 'TOO_FEW_PLAYERS');
+  }
+
+  seedPlayers(tournament.players, seedValues);
+  const bySeed = [...tournament.players].sort((a, b) => a.seed! - b.seed!).map(p => p.playerId);
+
+  if (tournament.format === 'bracket') {
+    // Pad the field to a power of two; the missing seeds are byes for the top seeds
+    let size = 2;
+    while (size < bySeed.length) size *= 2;
+    const order = bracketOrder(size);
+    const pairs: string[][] = [];
+    for (let i = 0; i < order.length; i += 2) {
+      pairs.push([bySeed[order[i] - 1], bySeed[order[i + 1] - 1]].filter((id): id is string => id !== undefined));
+    }
+    tournament.rounds = [pairs.map((players, index) => newMatch(1, index, players, now))];
+  } else {
+    tournament.rounds = roundRobinPairings(bySeed).map((pairs, round) =>
+      pairs.map((players, index) => newMatch(round + 1, index, players, now))
+    );
+  }
+
+  tournament.status = 'running';
+  tournament.currentRound = 0;
+  tournament.startedAt = now.toISOString();
+  advanceTournament(tournament, now);
+}
+
+export function findTournamentPlayer(tournament: Tournament, playerId: string): TournamentPlayer {
+  const player = tournament.players.find(p => p.playerId === playerId);
+  if (!player) throw new TournamentError(`${playerId} isn't registered for ${tournament.name}.`, 'NOT_REGISTERED');
+  return player;
+}
+
+export function currentRoundMatches(tournament: Tournament): TournamentMatch[] {
+  return tournament.status === 'running' ? tournament.rounds[tournament.currentRound] ?? [] : [];
+}
+
+export function findMatch(tournament: Tournament, matchId: string): TournamentMatch | undefined {
+  return tournament.rounds.flat().find(match => match.id === matchId);
+}
+
+// The match the player should play now, or a TournamentError saying why there isn't one
+export function matchToPlay(tournament: Tournament, playerId: string): TournamentMatch {
+  findTournamentPlayer(tournament, playerId);
+  if (tournament.status !== 'running') {
+    throw new TournamentError(
+      tournament.status === 'registration' ? `${tournament.name} hasn't started yet.` : `${tournament.name} is over.`,
+      'WRONG_STATUS'
+    );
+  }
+  const match = currentRoundMatches(tournament).find(m => m.players.includes(playerId));
+  if (!match) {
+    throw new TournamentError(`You're out of ${tournament.name}. Follow the standings to see who wins!`, 'NO_MATCH');
+  }
+  if (match.entries[playerId]) {
+    const waiting = match.status === 'pending' ? ' Waiting for your opponent to finish theirs.' : ' The next round starts once every match is done.';
+    throw new TournamentError(`You've already played your round ${match.round} match.${waiting}`, 'MATCH_PLAYED');
+  }
+  return match;
+}
+
+// Store the shared questions unless another player's request got there first; returns the stored set
+export function setMatchQuestions(tournament: Tournament, matchId: string, questions: Question[]): Question[] {
+  const match = findMatch(tournament, matchId);
+  if (!match) throw new TournamentError(`Match ${matchId} doesn't exist.`, 'NO_MATCH');
+  if (match.questions.length === 0) match.questions = questions;
+  return match.questions;
+}
+
+// Claim the player's side of the match for a game; playing it twice isn't allowed
+export function claimMatch(tournament: Tournament, playerId: string, gameId: string): TournamentMatch {
+  const match = matchToPlay(tournament, playerId);
+  match.gameIds[playerId] ??= gameId;
+  return match;
+}
+
+// Organizer only: settle the round's unfinished matches so the tournament can move on. Players who
+// haven't finished their side forfeit it; a match nobody finished goes to the better seed.
+export function closeTournamentRound(tournament: Tournament, playerId: string, now: Date): TournamentMatch[] {
+  if (tournament.organizerId !== playerId) {
+    throw new TournamentError('Only the organizer can close a round.', 'NOT_ORGANIZER');
+  }
+  if (tournament.status !== 'running') {
+    throw new TournamentError(`${tournament.name} isn't running.`, 'WRONG_STATUS');
+  }
+  const closed = currentRoundMatches(tournament).filter(m => m.status === 'pending');
+  for (const match of closed) {
+    for (const id of match.players) {
+      match.entries[id] ??= { gameId: match.gameIds[id] ?? '', score: 0, correctAnswers: 0, forfeited: true, finishedAt: now.toISOString() };
+    }
+    decideMatch(tournament, match);
+  }
+  advanceTournament(tournament, now);
+  return closed;
+}
+
+// Finishers beat forfeits, then higher score, then more correct answers
+function compareEntries(a: MatchEntry, b: MatchEntry): number {
+  return Number(a.forfeited) - Number(b.forfeited) || b.score - a.score || b.correctAnswers - a.correctAnswers;
+}
+
+function decideMatch(tournament: Tournament, match: TournamentMatch) {
+  const [first, second] = match.players;
+  const order = compareEntries(match.entries[first], match.entries[second]);
+  match.status = 'finished';
+  if (order === 0 && tournament.format === 'round-robin') {
+    match.draw = true;
+    return;
+  }
+  // Knockout matches need a winner: a dead heat goes to the better seed
+  const firstWins = order < 0 || (order === 0 && seedOf(tournament, first) < seedOf(tournament, second));
+  match.winnerId = firstWins ? first : second;
+}
+
+// Record a player's finished match game. Returns the match so the caller can report the result.
+export function recordMatchEntry(tournament: Tournament, matchId: string, playerId: string, entry: MatchEntry, now: Date) {
+  const match = findMatch(tournament, matchId);
+  // Games for a match that has since been settled (e.g. replayed state) are ignored
+  if (!match || match.status === 'finished' || match.entries[playerId] || match.gameIds[playerId] !== entry.gameId) {
+    return match;
+  }
+  match.entries[playerId] = entry;
+  if (match.players.every(id => match.entries[id])) {
+    decideMatch(tournament, match);
+    advanceTournament(tournament, now);
+  }
+  return match;
+}
+
+// Move on once every match in the round is finished: draw the next knockout round, or finish the tournament
+function advanceTournament(tournament: Tournament, now: Date) {
+  while (tournament.status === 'running' && currentRoundMatches(tournament).every(m => m.status === 'finished')) {
+    const round = currentRoundMatches(tournament);
+
+    if (tournament.format === 'bracket') {
+      const winners = round.map(m => m.winnerId!);
+      if (winners.length === 1) {
+        finishTournament(tournament, winners[0], now);
+        return;
+      }
+      const number = tournament.currentRound + 2;
+      const pairs: string[][] = [];
+      for (let i = 0; i < winners.length; i += 2) pairs.push(winners.slice(i, i + 2));
+      tournament.rounds.push(pairs.map((players, index) => newMatch(number, index, players, now)));
+    } else if (tournament.currentRound === tournament.rounds.length - 1) {
+      finishTournament(tournament, tournamentStandings(tournament)[0].playerId, now);
+      return;
+    }
+    tournament.currentRound += 1;
+  }
+}
+
+function finishTournament(tournament: Tournament, championId: string, now: Date) {
+  tournament.status = 'finished';
+  tournament.championId = championId;
+  tournament.finishedAt = now.toISOString();
+}
+
+export interface TournamentStanding {
+  rank: number;
+  playerId: string;
+  seed?: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  // Round-robin table points: 3 for a win, 1 for a draw
+  points: number;
+  totalScore: number;
+  // Latest round the player has a match in (byes included)
+  roundReached: number;
+  // Knockout only: lost a match
+  eliminated: boolean;
+}
+
+// Round-robin: points, then total score. Bracket: furthest round reached, players still in first, then total score.
+// Seeds break ties.
+export function tournamentStandings(tournament: Tournament): TournamentStanding[] {
+  const rows = tournament.players.map(player => {
+    const row = {
+      playerId: player.playerId,
+      seed: player.seed,
+      played: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      points: 0,
+      totalScore: 0,
+      roundReached: 0,
+      eliminated: false
+    };
+    for (const match of tournament.rounds.flat()) {
+      if (match.players.includes(player.playerId)) row.roundReached = Math.max(row.roundReached, match.round);
+      // Byes advance a player but don't count as a match played
+      if (match.status !== 'finished' || match.players.length < 2 || !match.players.includes(player.playerId)) continue;
+      row.played += 1;
+      row.totalScore += match.entries[player.playerId]?.score ?? 0;
+      if (match.draw) {
+        row.draws += 1;
+        row.points += POINTS_FOR_DRAW;
+      } else if (match.winnerId === player.playerId) {
+        row.wins += 1;
+        row.points += POINTS_FOR_WIN;
+      } else {
+        row.losses += 1;
+        if (tournament.format === 'bracket') row.eliminated = true;
+      }
+    }
+    return row;
+  });
+
+  rows.sort((a, b) =>
+    (tournament.format === 'bracket'
+      ? b.roundReached - a.roundReached || Number(a.eliminated) - Number(b.eliminated)
+      : b.points - a.points) ||
+    b.totalScore - a.totalScore ||
+    (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER)
+  );
+  // The champion tops the table even when a runner-up scored more overall
+  if (tournament.championId) {
+    const champion = rows.findIndex(row => row.playerId === tournament.championId);
+    rows.unshift(...rows.splice(champion, 1));
+  }
+  return rows.map((row, index) => ({ rank: index + 1, ...row }));
+}
@@ -0,0 +1,194 @@
+import type { Question, QuestionType } from '../questions';
+import type { AdaptiveState } from './adaptive';
+import type { ScoringPresetName } from './scoring';
+
+export const gameModes = ['practice', 'daily', 'tournament'] as const;
+export type GameMode = (typeof gameModes)[number];
+
+// Tournament games are started from a tournament match, not with start-trivia-game
+export const startableGameModes = ['practice', 'daily'] as const;
+export type StartableGameMode = (typeof startableGameModes)[number];
+
+// active -> paused -> active ...; a game ends as completed (last question played), abandoned (forfeited)
+// or expired (left idle too long). Only completed games are ranked.
+export const gameStatuses = ['active', 'paused', 'completed', 'abandoned', 'expired'] as const;
+export type GameStatus = (typeof gameStatuses)[number];
+
+// fifty-fifty removes two wrong options (or gives a letter clue for free text), ask-the-audience shows a simulated vote,
+// extra-time adds seconds to the timer, double-or-nothing doubles the question's points and costs the streak on a miss
+export const lifelineNames = ['fifty-fifty', 'ask-the-audience', 'extra-time', 'double-or-nothing'] as const;
+export type LifelineName = (typeof lifelineNames)[number];
+
+// Game state interface
+export interface GameState {
+  gameId: string;
+  playerId: string;
+  mode: GameMode;
+  status: GameStatus;
+  scoringPreset: ScoringPresetName;
+  score: number;
+  currentQuestionIndex: number;
+  questions: Question[];
+  streak: number;
+  correctAnswers: number;
+  // fifty-fifty uses, kept for results and profiles
+  hintsUsed: number;
+  skipsUsed: number;
+  // Uses of each lifeline this game
+  lifelinesUsed: Record<LifelineName, number>;
+  // Seconds allowed per question; 0 means untimed
+  timeLimitSeconds: number;
+  // Present when the game picks each question's difficulty from the player's performance
+  adaptive?: AdaptiveState;
+  // Present when the game is the player's side of a tournament match
+  tournament?: { code: string; matchId: string };
+  // Id of the question pack the questions came from, if any
+  questionPack?: string;
+  startedAt: string;
+  lastPlayed: string;
+  // Last start, move, pause or resume; idle games expire from here
+  lastActivityAt: string;
+  pausedAt?: string;
+  endedAt?: string;
+  // Set by the game state repository: the stored version this state was loaded at or last saved as
+  version?: number;
+}
+
+// One answered (or skipped) question, recorded when it happens for lifetime player analytics
+export interface AnswerRecord {
+  gameId: string;
+  playerId: string;
+  mode: GameMode;
+  questionId: string;
+  category: string;
+  difficulty: string;
+  questionType: QuestionType;
+  correct: boolean;
+  skipped: boolean;
+  timedOut: boolean;
+  // Hints taken on this question before it was answered
+  hintsUsed: number;
+  answeredAt: string;
+}
+
+// Immutable record of a finished game, used for historical leaderboards
+export interface GameResult {
+  gameId: string;
+  playerId: string;
+  mode: GameMode;
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  accuracy: number;
+  hintsUsed: number;
+  skipsUsed: number;
+  difficultyMix: Record<string, number>;
+  categories: string[];
+  // UTC date (YYYY-MM-DD) the game was completed on
+  playedOn: string;
+  completedAt: string;
+}
+
+export type RoomStatus = 'lobby' | 'playing' | 'finished';
+
+export interface RoomAnswer {
+  answer: string;
+  correct: boolean;
+  timedOut: boolean;
+  points: number;
+  answeredAt: string;
+}
+
+// A room member's running totals, mirroring the per-player fields of GameState
+export interface RoomPlayer extends Pick<GameState, 'playerId' | 'score' | 'streak' | 'correctAnswers'> {
+  joinedAt: string;
+  // Answers keyed by question id
+  answers: Record<string, RoomAnswer>;
+}
+
+export interface RoomRoundSummary {
+  questionNumber: number;
+  question: string;
+  correctAnswer: string;
+  results: Array<{ playerId: string; answered: boolean; correct: boolean; timedOut: boolean; points: number }>;
+}
+
+// Multiplayer session: every member plays the same questions, one round at a time
+export interface Room {
+  code: string;
+  hostId: string;
+  status: RoomStatus;
+  scoringPreset: ScoringPresetName;
+  timeLimitSeconds: number;
+  questionsCount: number;
+  players: RoomPlayer[];
+  questions: Question[];
+  currentQuestionIndex: number;
+  lastRound?: RoomRoundSummary;
+  createdAt: string;
+}
+
+export const tournamentFormats = ['bracket', 'round-robin'] as const;
+// bracket: single elimination, losers are out; round-robin: everyone plays everyone once
+export type TournamentFormat = (typeof tournamentFormats)[number];
+
+export const tournamentSeedings = ['rating', 'score'] as const;
+// rating: skill rating; score: average score of completed games
+export type TournamentSeeding = (typeof tournamentSeedings)[number];
+
+export type TournamentStatus = 'registration' | 'running' | 'finished';
+
+export interface TournamentPlayer {
+  playerId: string;
+  // 1 is the strongest; set when the tournament starts
+  seed?: number;
+  // Rating or average score the seed was taken from
+  seedValue?: number;
+  registeredAt: string;
+}
+
+// One player's run through a match's questions
+export interface MatchEntry {
+  gameId: string;
+  score: number;
+  correctAnswers: number;
+  // Forfeited or expired before the last question
+  forfeited: boolean;
+  finishedAt: string;
+}
+
+// Head-to-head match: both players answer the same questions in their own games, highest score wins
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  // A single player means a bye
+  players: string[];
+  // Shared question set, fetched when the first player starts the match
+  questions: Question[];
+  // Game each player is playing the match in, keyed by player
+  gameIds: Record<string, string>;
+  entries: Record<string, MatchEntry>;
+  status: 'pending' | 'finished';
+  winnerId?: string;
+  // Round-robin only: level on score and correct answers
+  draw?: boolean;
+}
+
+export interface Tournament {
+  code: string;
+  name: string;
+  organizerId: string;
+  format: TournamentFormat;
+  seedBy: TournamentSeeding;
+  status: TournamentStatus;
+  scoringPreset: ScoringPresetName;
+  questionsPerMatch: number;
+  players: TournamentPlayer[];
+  rounds: TournamentMatch[][];
+  // Index into rounds of the round being played
+  currentRound: number;
+  championId?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
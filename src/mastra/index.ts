@@ -1,23 +1,29 @@
 
 import { Mastra } from '@mastra/core/mastra';
-import { PinoLogger } from '@mastra/loggers';
 import { LibSQLStore } from '@mastra/libsql';
 import { triviaWorkflow } from './workflows/trivia-workflow';
+import { questionGenerationWorkflow } from './workflows/question-generation-workflow';
 import { triviaAgent } from './agents/trivia-agent';
-import {toolCallAppropriatenessScorer,completenessScorer,answerFeedbackScorer} from './scorers/trivia-scorer'
+import { explainerAgent } from './agents/explainer-agent';
+import { questionWriterAgent } from './agents/question-writer-agent';
+import { triviaApiRoutes } from './server/trivia-routes';
+import { triviaDb } from './storage';
+import { logger } from './logger';
+import {toolCallAppropriatenessScorer,completenessScorer,answerFeedbackScorer,answerConsistencyScorer,answerLeakScorer} from './scorers/trivia-scorer'
 
 export const mastra = new Mastra({
-  workflows: { triviaWorkflow },
-  agents: { triviaAgent },
-  scorers: { toolCallAppropriatenessScorer,completenessScorer, answerFeedbackScorer},
+  workflows: { triviaWorkflow, questionGenerationWorkflow },
+  agents: { triviaAgent, explainerAgent, questionWriterAgent },
+  scorers: { toolCallAppropriatenessScorer,completenessScorer, answerFeedbackScorer, answerConsistencyScorer, answerLeakScorer },
   storage: new LibSQLStore({
-    // stores observability, scores, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: 'file:../trivia.db',
-  }),
-  logger: new PinoLogger({
-    name: 'Mastra',
-    level: 'info',
+    // stores observability, scores, ... in file:../trivia.db (shared with the trivia game tables, see ./storage)
+    client: triviaDb,
   }),
+  server: {
+    // REST and event stream routes for non-chat game clients
+    apiRoutes: triviaApiRoutes,
+  },
+  logger,
   telemetry: {
     // Telemetry is deprecated and will be removed in the Nov 4th release
     enabled: false, 
@@ -0,0 +1,7 @@
+import { PinoLogger } from '@mastra/loggers';
+
+// Shared logger: Mastra and the game code outside agents and workflows (e.g. the question sources) log through it
+export const logger = new PinoLogger({
+  name: 'Mastra',
+  level: 'info'
+});
@@ -0,0 +1,261 @@
+import type { RawQuestion } from './types';
+
+// Built-in offline question bank (OpenTDB shape) used when no other source is reachable
+export const defaultQuestionBank: RawQuestion[] = [
+  {
+    category: 'General Knowledge',
+    difficulty: 'easy',
+    question: 'How many days are there in a leap year?',
+    correct_answer: '366',
+    incorrect_answers: ['365', '364', '367']
+  },
+  {
+    category: 'General Knowledge',
+    difficulty: 'easy',
+    question: 'What colour do you get when you mix red and white?',
+    correct_answer: 'Pink',
+    incorrect_answers: ['Purple', 'Orange', 'Brown']
+  },
+  {
+    category: 'General Knowledge',
+    difficulty: 'medium',
+    question: 'Which language has the most native speakers in the world?',
+    correct_answer: 'Mandarin Chinese',
+    incorrect_answers: ['English', 'Spanish', 'Hindi']
+  },
+  {
+    category: 'General Knowledge',
+    difficulty: 'medium',
+    question: 'How many sides does a dodecagon have?',
+    correct_answer: '12',
+    incorrect_answers: ['10', '11', '14']
+  },
+  {
+    category: 'General Knowledge',
+    difficulty: 'hard',
+    question: 'Which company originally manufactured the Walkman portable cassette player?',
+    correct_answer: 'Sony',
+    incorrect_answers: ['Panasonic', 'Philips', 'Toshiba']
+  },
+  {
+    category: 'Science &amp; Nature',
+    difficulty: 'easy',
+    question: 'What is the chemical symbol for water?',
+    correct_answer: 'H2O',
+    incorrect_answers: ['O2', 'CO2', 'HO2']
+  },
+  {
+    category: 'Science &amp; Nature',
+    difficulty: 'easy',
+    question: 'Which planet is known as the &quot;Red Planet&quot;?',
+    correct_answer: 'Mars',
+    incorrect_answers: ['Venus', 'Jupiter', 'Mercury']
+  },
+  {
+    category: 'Science &amp; Nature',
+    difficulty: 'medium',
+    question: 'What is the hardest natural substance on Earth?',
+    correct_answer: 'Diamond',
+    incorrect_answers: ['Quartz', 'Granite', 'Titanium']
+  },
+  {
+    category: 'Science &amp; Nature',
+    difficulty: 'medium',
+    question: 'What is the most abundant gas in Earth&#039;s atmosphere?',
+    correct_answer: 'Nitrogen',
+    incorrect_answers: ['Oxygen', 'Carbon Dioxide', 'Argon']
+  },
+  {
+    category: 'Science &amp; Nature',
+    difficulty: 'hard',
+    question: 'What is the atomic number of gold?',
+    correct_answer: '79',
+    incorrect_answers: ['47', '82', '78']
+  },
+  {
+    category: 'Geography',
+    difficulty: 'easy',
+    question: 'What is the capital city of France?',
+    correct_answer: 'Paris',
+    incorrect_answers: ['Lyon', 'Marseille', 'Nice']
+  },
+  {
+    category: 'Geography',
+    difficulty: 'easy',
+    question: 'Which is the largest ocean on Earth?',
+    correct_answer: 'Pacific Ocean',
+    incorrect_answers: ['Atlantic Ocean', 'Indian Ocean', 'Arctic Ocean']
+  },
+  {
+    category: 'Geography',
+    difficulty: 'medium',
+    question: 'What is the capital city of Australia?',
+    correct_answer: 'Canberra',
+    incorrect_answers: ['Sydney', 'Melbourne', 'Perth']
+  },
+  {
+    category: 'Geography',
+    difficulty: 'medium',
+    question: 'Which river flows through Cairo?',
+    correct_answer: 'Nile',
+    incorrect_answers: ['Tigris', 'Euphrates', 'Jordan']
+  },
+  {
+    category: 'Geography',
+    difficulty: 'hard',
+    question: 'Which country has the most time zones, including overseas territories?',
+    correct_answer: 'France',
+    incorrect_answers: ['Russia', 'United States', 'United Kingdom']
+  },
+  {
+    category: 'History',
+    difficulty: 'easy',
+    question: 'In which year did World War II end?',
+    correct_answer: '1945',
+    incorrect_answers: ['1944', '1946', '1939']
+  },
+  {
+    category: 'History',
+    difficulty: 'easy',
+    question: 'Who was the first President of the United States?',
+    correct_answer: 'George Washington',
+    incorrect_answers: ['Thomas Jefferson', 'Abraham Lincoln', 'John Adams']
+  },
+  {
+    category: 'History',
+    difficulty: 'medium',
+    question: 'Which ancient wonder was located in Alexandria?',
+    correct_answer: 'The Lighthouse',
+    incorrect_answers: ['The Hanging Gardens', 'The Colossus', 'The Mausoleum']
+  },
+  {
+    category: 'History',
+    difficulty: 'medium',
+    question: 'In which year did the Berlin Wall fall?',
+    correct_answer: '1989',
+    incorrect_answers: ['1987', '1991', '1985']
+  },
+  {
+    category: 'History',
+    difficulty: 'hard',
+    question: 'Which empire was ruled by Mansa Musa?',
+    correct_answer: 'Mali Empire',
+    incorrect_answers: ['Songhai Empire', 'Ghana Empire', 'Benin Empire']
+  },
+  {
+    category: 'Entertainment: Film',
+    difficulty: 'easy',
+    question: 'Which film features a toy cowboy named Woody?',
+    correct_answer: 'Toy Story',
+    incorrect_answers: ['Shrek', 'Cars', 'Up']
+  },
+  {
+    category: 'Entertainment: Film',
+    difficulty: 'medium',
+    question: 'Who directed the film &quot;Jurassic Park&quot; (1993)?',
+    correct_answer: 'Steven Spielberg',
+    incorrect_answers: ['James Cameron', 'George Lucas', 'Ridley Scott']
+  },
+  {
+    category: 'Entertainment: Film',
+    difficulty: 'hard',
+    question: 'Which film won the first Academy Award for Best Picture?',
+    correct_answer: 'Wings',
+    incorrect_answers: ['Sunrise', 'The Jazz Singer', 'Metropolis']
+  },
+  {
+    category: 'Sports',
+    difficulty: 'easy',
+    question: 'How many players are on the field for one team in a football (soccer) match?',
+    correct_answer: '11',
+    incorrect_answers: ['10', '9', '12']
+  },
+  {
+    category: 'Sports',
+    difficulty: 'medium',
+    question: 'Which country won the first FIFA World Cup in 1930?',
+    correct_answer: 'Uruguay',
+    incorrect_answers: ['Brazil', 'Argentina', 'Italy']
+  },
+  {
+    category: 'Sports',
+    difficulty: 'hard',
+    question: 'In tennis, what is the term for a score of 40-40?',
+    correct_answer: 'Deuce',
+    incorrect_answers: ['Advantage', 'Love', 'Break']
+  },
+  {
+    category: 'Science &amp; Nature',
+    type: 'boolean',
+    difficulty: 'easy',
+    question: 'The Sun is a star.',
+    correct_answer: 'True',
+    incorrect_answers: ['False']
+  },
+  {
+    category: 'Geography',
+    type: 'boolean',
+    difficulty: 'medium',
+    question: 'Mount Kilimanjaro is located in Kenya.',
+    correct_answer: 'False',
+    incorrect_answers: ['True']
+  },
+  {
+    category: 'History',
+    type: 'boolean',
+    difficulty: 'medium',
+    question: 'The Great Fire of London happened in 1666.',
+    correct_answer: 'True',
+    incorrect_answers: ['False']
+  },
+  {
+    category: 'General Knowledge',
+    type: 'boolean',
+    difficulty: 'easy',
+    question: 'A spider has eight legs.',
+    correct_answer: 'True',
+    incorrect_answers: ['False']
+  },
+  {
+    category: 'Geography',
+    type: 'text',
+    difficulty: 'easy',
+    question: 'What is the capital city of Japan?',
+    correct_answer: 'Tokyo',
+    incorrect_answers: []
+  },
+  {
+    category: 'Science &amp; Nature',
+    type: 'text',
+    difficulty: 'medium',
+    question: 'How many bones are in the adult human body?',
+    correct_answer: '206',
+    incorrect_answers: []
+  },
+  {
+    category: 'History',
+    type: 'text',
+    difficulty: 'medium',
+    question: 'Which civilisation built Machu Picchu?',
+    correct_answer: 'The Inca',
+    incorrect_answers: [],
+    accepted_answers: ['Incas', 'Inca Empire']
+  },
+  {
+    category: 'General Knowledge',
+    type: 'text',
+    difficulty: 'easy',
+    question: 'How many continents are there on Earth?',
+    correct_answer: 'Seven',
+    incorrect_answers: []
+  },
+  {
+    category: 'Entertainment: Film',
+    type: 'text',
+    difficulty: 'medium',
+    question: 'Which wizard school does Harry Potter attend?',
+    correct_answer: 'Hogwarts',
+    incorrect_answers: [],
+    accepted_answers: ['Hogwarts School of Witchcraft and Wizardry']
+  }
+];
@@ -0,0 +1,67 @@
+import type { IMastraLogger } from '@mastra/core/logger';
+import { QuestionSourceError, type QuestionCategory, type QuestionProvider, type QuestionQuery } from './types';
+
+// Tries each provider in order and returns the first successful result. Falling back because a source is down
+// or rate limited (rather than just having nothing for the query) is logged, since players get a smaller bank.
+export class FallbackQuestionProvider implements QuestionProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly providers: QuestionProvider[],
+    private readonly logger?: IMastraLogger
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FallbackQuestionProvider requires at least one provider');
+    }
+    this.name = `fallback(${providers.map(p => p.name).join(' -> ')})`;
+  }
+
+  async fetchQuestions(query: QuestionQuery) {
+    const failures: string[] = [];
+    let rateLimited = false;
+    // Whether every source was reachable but had nothing matching the query
+    let noResults = true;
+
+    for (const provider of this.providers) {
+      try {
+        const questions = await provider.fetchQuestions(query);
+        if (questions.length > 0) {
+          if (!noResults) {
+            this.logger?.warn(`Questions served by ${provider.name} after earlier sources failed`, { failures });
+          }
+          return questions.map(question => ({ ...question, source: provider.name }));
+        }
+        failures.push(`${provider.name}: no questions`);
+      } catch (error) {
+        const code = error instanceof QuestionSourceError ? error.code : 'UNAVAILABLE';
+        if (code === 'RATE_LIMITED') rateLimited = true;
+        if (code !== 'NO_RESULTS' && code !== 'INVALID_QUERY') noResults = false;
+        failures.push(`${provider.name}: ${(error as Error).message}`);
+      }
+    }
+
+    throw new QuestionSourceError(
+      `All question sources failed (${failures.join('; ')})`,
+      this.name,
+      rateLimited ? 'RATE_LIMITED' : noResults ? 'NO_RESULTS' : 'UNAVAILABLE'
+    );
+  }
+
+  // Categories from every reachable source, merged by name (OpenTDB ids are kept)
+  async listCategories() {
+    const settled = await Promise.allSettled(this.providers.map(p => p.listCategories()));
+    const merged = new Map<string, QuestionCategory>();
+    for (const result of settled) {
+      if (result.status !== 'fulfilled') continue;
+      for (const category of result.value) {
+        const key = category.name.toLowerCase();
+        const existing = merged.get(key);
+        if (!existing || (existing.id === undefined && category.id !== undefined)) merged.set(key, category);
+      }
+    }
+    if (merged.size === 0) {
+      throw new QuestionSourceError('No question source could list its categories', this.name);
+    }
+    return Array.from(merged.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
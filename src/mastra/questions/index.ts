@@ -0,0 +1,62 @@
+import type { IMastraLogger } from '@mastra/core/logger';
+import { logger } from '../logger';
+import { defaultQuestionBank } from './default-bank';
+import { FallbackQuestionProvider } from './fallback-provider';
+import { LocalQuestionProvider } from './local-provider';
+import { OpenTDBQuestionProvider } from './opentdb-provider';
+import type { QuestionProvider } from './types';
+
+export * from './types';
+export {
+  decodeHtml,
+  normalizeQuestion,
+  normalizeQuestions,
+  questionFingerprint,
+  questionProblem,
+  sanitizeText,
+  shuffleArray
+} from './normalize';
+export { OPENTDB_SOURCE, OpenTDBQuestionProvider } from './opentdb-provider';
+export { LocalQuestionProvider } from './local-provider';
+export { FallbackQuestionProvider } from './fallback-provider';
+export {
+  checkRawQuestion,
+  describePackQuestions,
+  detectPackFormat,
+  formatQuestionPack,
+  packQuestionProvider,
+  parseQuestionPack,
+  questionPackFormats,
+  questionPackId,
+  QuestionPackFormatError,
+  type ParsedQuestionPack,
+  type QuestionPack,
+  type QuestionPackFormat,
+  type QuestionPackIssue,
+  type QuestionPackMetadata
+} from './packs';
+
+export interface QuestionSourceConfig {
+  // Skip OpenTDB entirely and only serve local questions
+  offline?: boolean;
+  // Optional JSON/YAML question bank tried after OpenTDB and before the built-in bank
+  bankPath?: string;
+  // Where falling back from a failing source is reported
+  logger?: IMastraLogger;
+}
+
+// Build the default chain: OpenTDB -> custom local bank (if configured) -> built-in bank
+export function createQuestionProvider(config: QuestionSourceConfig = {}): QuestionProvider {
+  const providers: QuestionProvider[] = [];
+  if (!config.offline) providers.push(new OpenTDBQuestionProvider());
+  if (config.bankPath) providers.push(new LocalQuestionProvider({ path: config.bankPath }));
+  providers.push(new LocalQuestionProvider({ questions: defaultQuestionBank, name: 'built-in' }));
+  return new FallbackQuestionProvider(providers, config.logger);
+}
+
+// Shared provider for the game tools and the trivia workflow
+export const questionProvider = createQuestionProvider({
+  offline: process.env.TRIVIA_OFFLINE === 'true' || process.env.TRIVIA_OFFLINE === '1',
+  bankPath: process.env.TRIVIA_QUESTION_BANK,
+  logger
+});
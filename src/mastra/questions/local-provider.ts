@@ -0,0 +1,76 @@
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { normalizeQuestions, sanitizeText, shuffleArray } from './normalize';
+import { QuestionSourceError, type QuestionCategory, type QuestionProvider, type QuestionQuery, type RawQuestion } from './types';
+
+export interface LocalProviderOptions {
+  // Path to a .json, .yaml or .yml question bank, resolved from the working directory
+  path?: string;
+  // Inline questions (used for the built-in bank)
+  questions?: RawQuestion[];
+  name?: string;
+}
+
+// Serves questions from a local question bank so games work offline
+export class LocalQuestionProvider implements QuestionProvider {
+  readonly name: string;
+  private readonly path?: string;
+  private bank?: RawQuestion[];
+
+  constructor(options: LocalProviderOptions) {
+    if (!options.path && !options.questions) {
+      throw new Error('LocalQuestionProvider requires either a path or inline questions');
+    }
+    this.name = options.name ?? (options.path ? `local:${options.path}` : 'local');
+    this.path = options.path;
+    this.bank = options.questions;
+  }
+
+  async fetchQuestions(query: QuestionQuery) {
+    const bank = await this.loadBank();
+
+    const category = query.category && !/^\d+$/.test(query.category) ? query.category.toLowerCase() : undefined;
+    const matching = bank.filter(q =>
+      (!category || sanitizeText(q.category).toLowerCase() === category) &&
+      (!query.difficulty || sanitizeText(q.difficulty).toLowerCase() === query.difficulty) &&
+      (!query.type || (q.type ?? 'multiple') === query.type)
+    );
+
+    // Normalize before cutting to the amount so malformed entries don't shrink the game
+    const questions = normalizeQuestions(shuffleArray(matching));
+    if (questions.length === 0) {
+      throw new QuestionSourceError('No local questions match this query', this.name, 'NO_RESULTS');
+    }
+
+    return questions.slice(0, query.amount);
+  }
+
+  async listCategories(): Promise<QuestionCategory[]> {
+    const bank = await this.loadBank();
+    return Array.from(new Set(bank.map(q => sanitizeText(q.category)).filter(Boolean)), name => ({ name }));
+  }
+
+  private async loadBank(): Promise<RawQuestion[]> {
+    if (this.bank) return this.bank;
+
+    const file = resolve(process.cwd(), this.path!);
+    let parsed: unknown;
+    try {
+      const contents = await readFile(file, 'utf8');
+      const ext = extname(file).toLowerCase();
+      parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+    } catch (error) {
+      throw new QuestionSourceError(`Failed to read question bank ${file}: ${(error as Error).message}`, this.name);
+    }
+
+    // Accept either a bare array or { questions: [...] }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(list)) {
+      throw new QuestionSourceError(`Question bank ${file} must contain a list of questions`, this.name, 'INVALID_QUERY');
+    }
+
+    this.bank = list as RawQuestion[];
+    return this.bank;
+  }
+}
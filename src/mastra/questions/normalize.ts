@@ -0,0 +1,110 @@
+import { createHash } from 'node:crypto';
+import { namedEntities } from './html-entities';
+import { questionTypes, type Question, type QuestionType, type RawQuestion } from './types';
+
+// Decode named (&ouml;), decimal (&#039;) and hex (&#x27;) entities in one pass, so "&amp;quot;" becomes "&quot;".
+// Unknown names and invalid code points are left as they are.
+export function decodeHtml(str: string): string {
+  if (!str) return str;
+  return str.replace(/&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z][A-Za-z0-9]*));/g, (entity, decimal, hex, name) => {
+    if (name) return namedEntities.get(name) ?? entity;
+    const codePoint = decimal ? Number(decimal) : parseInt(hex, 16);
+    const valid = codePoint > 0 && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+    return valid ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+// Decoded, trimmed single-line text; anything that isn't a string becomes ''
+export function sanitizeText(value: unknown): string {
+  return typeof value === 'string' ? decodeHtml(value).replace(/\s+/g, ' ').trim() : '';
+}
+
+// Drop empty entries and case-insensitive duplicates, keeping the first spelling
+function uniqueTexts(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Stable id for a question across sources and games: hash of its case- and whitespace-normalized text
+export function questionFingerprint(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+// Utility function to shuffle arrays (pass a seeded random source for a reproducible order)
+export function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function questionTypeOf(raw: RawQuestion): QuestionType {
+  return questionTypes.includes(raw.type as QuestionType) ? (raw.type as QuestionType) : 'multiple';
+}
+
+function textList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(sanitizeText) : [];
+}
+
+// Convert a raw source question into the game's Question shape: decode and trim every text,
+// and de-duplicate the options. The result may still be unplayable; check it with questionProblem().
+export function normalizeQuestion(raw: RawQuestion, index: number): Question {
+  const type = questionTypeOf(raw);
+  let correct = sanitizeText(raw.correct_answer);
+  const explanation = sanitizeText(raw.explanation);
+  const question: Question = {
+    id: `q-${index + 1}`,
+    type,
+    category: sanitizeText(raw.category) || 'General',
+    difficulty: sanitizeText(raw.difficulty).toLowerCase() || 'medium',
+    question: sanitizeText(raw.question),
+    options: [],
+    correct,
+    explanation: explanation || undefined,
+    answered: false
+  };
+
+  if (type === 'boolean') {
+    // Always True then False so "A"/"B" answers stay predictable
+    correct = /^(true|false)$/i.test(correct) ? correct[0].toUpperCase() + correct.slice(1).toLowerCase() : correct;
+    question.correct = correct;
+    question.options = ['True', 'False'];
+  } else if (type === 'multiple') {
+    // A distractor that repeats the correct answer would make two options right
+    const incorrect = textList(raw.incorrect_answers).filter(a => a.toLowerCase() !== correct.toLowerCase());
+    question.options = shuffleArray(uniqueTexts([correct, ...incorrect]));
+  } else {
+    const accepted = uniqueTexts(textList(raw.accepted_answers)).filter(a => a.toLowerCase() !== correct.toLowerCase());
+    if (accepted.length > 0) question.acceptedAnswers = accepted;
+  }
+  return question;
+}
+
+// Why a normalized question can't be played, or undefined if it's fine
+export function questionProblem(question: Question): string | undefined {
+  if (!question.question) return 'missing question text';
+  if (!question.correct) return 'missing correct answer';
+  if (question.type === 'boolean' && !['True', 'False'].includes(question.correct)) {
+    return `correct answer of a true/false question must be True or False, got "${question.correct}"`;
+  }
+  if (question.type === 'multiple' && question.options.length < 2) {
+    return 'needs at least 2 distinct options';
+  }
+  return undefined;
+}
+
+// Normalize a batch, dropping malformed questions; ids are numbered over the questions kept
+export function normalizeQuestions(raws: RawQuestion[]): Question[] {
+  return raws
+    .map((raw, index) => normalizeQuestion(raw, index))
+    .filter(question => !questionProblem(question))
+    .map((question, index) => ({ ...question, id: `q-${index + 1}` }));
+}
@@ -0,0 +1,208 @@
+import { normalizeQuestions } from './normalize';
+import {
+  QuestionSourceError,
+  type QuestionCategory,
+  type QuestionProvider,
+  type QuestionQuery,
+  type RawQuestion
+} from './types';
+
+type OpenTDBResponse = {
+  response_code: number;
+  results: RawQuestion[];
+};
+
+type OpenTDBCategoryResponse = {
+  trivia_categories: QuestionCategory[];
+};
+
+type OpenTDBTokenResponse = {
+  response_code: number;
+  token?: string;
+};
+
+export const OPENTDB_SOURCE = 'opentdb';
+
+// Session tokens kept in memory; a restart just starts new sessions
+const MAX_SESSION_TOKENS = 1000;
+// OpenTDB deletes a token after 6 hours without use; replace it ourselves a little before that
+const TOKEN_IDLE_MS = 5.5 * 60 * 60 * 1000;
+
+interface SessionToken {
+  token: string;
+  lastUsedAt: number;
+}
+
+function withToken(params: URLSearchParams, token: string | undefined) {
+  const withToken = new URLSearchParams(params);
+  if (token) withToken.append('token', token);
+  return withToken;
+}
+
+export interface OpenTDBProviderOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  // OpenTDB allows one request every 5 seconds per IP
+  minIntervalMs?: number;
+  // Longest a request waits for its turn before failing as rate limited, so the next source can answer instead
+  maxWaitMs?: number;
+}
+
+// Fetches multiple choice and true/false questions from https://opentdb.com
+export class OpenTDBQuestionProvider implements QuestionProvider {
+  readonly name = OPENTDB_SOURCE;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly minIntervalMs: number;
+  private readonly maxWaitMs: number;
+  // Earliest time (ms) the next request may be sent
+  private nextRequestAt = 0;
+  // The category list rarely changes, so fetch it once per process
+  private categories?: Promise<QuestionCategory[]>;
+  // One session token per caller key, so OpenTDB doesn't repeat questions within a session
+  private readonly tokens = new Map<string, SessionToken>();
+
+  constructor(options: OpenTDBProviderOptions = {}) {
+    this.baseUrl = options.baseUrl ?? 'https://opentdb.com';
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.minIntervalMs = options.minIntervalMs ?? 5000;
+    this.maxWaitMs = options.maxWaitMs ?? 10000;
+  }
+
+  async fetchQuestions(query: QuestionQuery) {
+    if (query.type === 'text') {
+      throw new QuestionSourceError('OpenTDB has no free-text questions', this.name, 'INVALID_QUERY');
+    }
+
+    const params = new URLSearchParams({ amount: String(query.amount) });
+    if (query.type) params.append('type', query.type);
+    if (query.category) params.append('category', String(await this.categoryId(query.category)));
+    if (query.difficulty) params.append('difficulty', query.difficulty);
+
+    let token = query.sessionKey ? await this.sessionToken(query.sessionKey) : undefined;
+    let data = await this.getJson<OpenTDBResponse>('api.php', withToken(params, token));
+
+    // 3: the token expired (unused for 6 hours), 4: it has served every question for this query.
+    // Get a fresh or reset token and try once more.
+    if (query.sessionKey && (data.response_code === 3 || data.response_code === 4)) {
+      token = data.response_code === 3
+        ? await this.requestToken(query.sessionKey)
+        : await this.resetToken(query.sessionKey, token!);
+      data = await this.getJson<OpenTDBResponse>('api.php', withToken(params, token));
+    }
+
+    switch (data.response_code) {
+      case 0:
+        break;
+      case 1:
+        throw new QuestionSourceError('OpenTDB has not enough questions for this query', this.name, 'NO_RESULTS');
+      case 2:
+        throw new QuestionSourceError('OpenTDB rejected the query parameters', this.name, 'INVALID_QUERY');
+      case 3:
+        throw new QuestionSourceError('OpenTDB session token not found', this.name);
+      case 4:
+        throw new QuestionSourceError('OpenTDB has no unseen questions left for this query', this.name, 'NO_RESULTS');
+      case 5:
+        throw new QuestionSourceError('OpenTDB rate limit reached', this.name, 'RATE_LIMITED');
+      default:
+        throw new QuestionSourceError(`OpenTDB returned response code ${data.response_code}`, this.name);
+    }
+
+    // Every use keeps the token alive for another 6 hours
+    const stored = query.sessionKey ? this.tokens.get(query.sessionKey) : undefined;
+    if (stored) stored.lastUsedAt = Date.now();
+
+    const questions = normalizeQuestions(data.results ?? []);
+    if (questions.length === 0) {
+      throw new QuestionSourceError('OpenTDB returned no usable questions', this.name, 'NO_RESULTS');
+    }
+    return questions;
+  }
+
+  async listCategories() {
+    this.categories ??= this.fetchCategories();
+    try {
+      return await this.categories;
+    } catch (error) {
+      // Don't cache failures; try again next time
+      this.categories = undefined;
+      throw error;
+    }
+  }
+
+  private async fetchCategories(): Promise<QuestionCategory[]> {
+    const data = await this.getJson<OpenTDBCategoryResponse>('api_category.php');
+    return data.trivia_categories.map(c => ({ id: c.id, name: c.name }));
+  }
+
+  // The caller's token, unless it has sat unused long enough for OpenTDB to have dropped it
+  private async sessionToken(sessionKey: string): Promise<string> {
+    const stored = this.tokens.get(sessionKey);
+    if (stored && Date.now() - stored.lastUsedAt < TOKEN_IDLE_MS) return stored.token;
+    return this.requestToken(sessionKey);
+  }
+
+  private async requestToken(sessionKey: string): Promise<string> {
+    const data = await this.getJson<OpenTDBTokenResponse>('api_token.php', new URLSearchParams({ command: 'request' }));
+    return this.storeToken(sessionKey, data);
+  }
+
+  // Resetting keeps the token but lets it serve every question again
+  private async resetToken(sessionKey: string, token: string): Promise<string> {
+    const data = await this.getJson<OpenTDBTokenResponse>('api_token.php', new URLSearchParams({ command: 'reset', token }));
+    return this.storeToken(sessionKey, data);
+  }
+
+  private storeToken(sessionKey: string, data: OpenTDBTokenResponse): string {
+    if (data.response_code !== 0 || !data.token) {
+      throw new QuestionSourceError(`OpenTDB token request returned response code ${data.response_code}`, this.name);
+    }
+    // Forget the least recently stored session once the map is full; that caller just gets a new token
+    this.tokens.delete(sessionKey);
+    if (this.tokens.size >= MAX_SESSION_TOKENS) {
+      this.tokens.delete(this.tokens.keys().next().value!);
+    }
+    this.tokens.set(sessionKey, { token: data.token, lastUsedAt: Date.now() });
+    return data.token;
+  }
+
+  // Wait for this request's turn. Turns are handed out when asked for, so concurrent games queue up in order.
+  private async waitForTurn() {
+    const now = Date.now();
+    const turn = Math.max(now, this.nextRequestAt);
+    if (turn - now > this.maxWaitMs) {
+      throw new QuestionSourceError('OpenTDB rate limit reached', this.name, 'RATE_LIMITED');
+    }
+    this.nextRequestAt = turn + this.minIntervalMs;
+    if (turn > now) await new Promise(resolve => setTimeout(resolve, turn - now));
+  }
+
+  private async getJson<T>(path: string, params?: URLSearchParams): Promise<T> {
+    await this.waitForTurn();
+    try {
+      const res = await fetch(`${this.baseUrl}/${path}${params ? `?${params.toString()}` : ''}`, {
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      if (res.status === 429) {
+        throw new QuestionSourceError('OpenTDB rate limit reached', this.name, 'RATE_LIMITED');
+      }
+      if (!res.ok) {
+        throw new QuestionSourceError(`OpenTDB responded with HTTP ${res.status}`, this.name);
+      }
+      return (await res.json()) as T;
+    } catch (error) {
+      if (error instanceof QuestionSourceError) throw error;
+      throw new QuestionSourceError(`OpenTDB request failed: ${(error as Error).message}`, this.name);
+    }
+  }
+
+  // OpenTDB only understands numeric category ids, so map names through the category list
+  private async categoryId(category: string): Promise<number> {
+    if (/^\d+$/.test(category)) return Number(category);
+    const match = (await this.listCategories()).find(c => c.name.toLowerCase() === category.toLowerCase());
+    if (!match) {
+      throw new QuestionSourceError(`OpenTDB has no category named "${category}"`, this.name, 'INVALID_QUERY');
+    }
+    return match.id!;
+  }
+}
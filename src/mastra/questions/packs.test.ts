@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { detectPackFormat, formatQuestionPack, parseQuestionPack, QuestionPackFormatError, type QuestionPack } from './packs';
+
+const sorted = (values: string[] | undefined) => [...(values ?? [])].sort();
+
+describe('parseQuestionPack (CSV)', () => {
+  it('reads the metadata lines, header and list columns', () => {
+    const parsed = parseQuestionPack(
+      [
+        '# name: Internal tools',
+        '# author: Platform team',
+        '# difficulty: easy',
+        'question,correct_answer,incorrect_answers,category',
+        '"Which tool deploys, builds and tests?",Pipeline,Wiki|Chat|Calendar,Tooling'
+      ].join('\n'),
+      'csv'
+    );
+
+    expect(parsed).toMatchObject({ name: 'Internal tools', author: 'Platform team', difficulty: 'easy', issues: [] });
+    expect(parsed.questions).toHaveLength(1);
+    expect(parsed.questions[0]).toMatchObject({ question: 'Which tool deploys, builds and tests?', correct_answer: 'Pipeline', difficulty: 'easy' });
+    expect(sorted(parsed.questions[0].incorrect_answers)).toEqual(['Calendar', 'Chat', 'Wiki']);
+  });
+
+  it('reads escaped bars and backslashes inside list entries', () => {
+    const parsed = parseQuestionPack('question,correct_answer,incorrect_answers\nWhich is OR?,a \\|\\| b,a \\| b|a \\\\ b|a & b\n', 'csv');
+    expect(sorted(parsed.questions[0].incorrect_answers)).toEqual(['a & b', 'a \\ b', 'a | b']);
+  });
+
+  it('reports bad lines by their line in the file and keeps the rest', () => {
+    const parsed = parseQuestionPack(
+      [
+        'question,correct_answer,incorrect_answers,difficulty',
+        'Good?,Yes,No|Maybe|Never,easy',
+        'Repeats?,Yes,Yes|No|Maybe,easy',
+        'Too hard?,Yes,No|Maybe|Never,impossible',
+        'Good?,Yes,No|Maybe|Never,easy'
+      ].join('\n'),
+      'csv'
+    );
+
+    expect(parsed.questions.map(q => q.question)).toEqual(['Good?']);
+    expect(parsed.issues).toEqual([
+      { line: 3, problem: 'option "Yes" repeats the correct answer' },
+      { line: 4, problem: expect.stringContaining('unknown difficulty "impossible"') },
+      { line: 5, problem: 'duplicate of the question on line 2' }
+    ]);
+  });
+
+  it('rejects a file without the required columns', () => {
+    expect(() => parseQuestionPack('prompt,answer\nQ?,A\n', 'csv')).toThrow(QuestionPackFormatError);
+  });
+});
+
+describe('parseQuestionPack (JSON)', () => {
+  it('accepts a bare list of questions', () => {
+    const parsed = parseQuestionPack(
+      JSON.stringify([{ question: 'Capital of France?', correct_answer: 'Paris', incorrect_answers: ['Rome', 'Madrid', 'Oslo'], difficulty: 'easy', category: 'Geography' }]),
+      'json'
+    );
+    expect(parsed.questions).toHaveLength(1);
+    expect(parsed.issues).toEqual([]);
+  });
+
+  it("doesn't echo the input when the JSON is broken", () => {
+    expect(() => parseQuestionPack('{"questions": [secret', 'json')).toThrow("The pack isn't valid JSON");
+  });
+});
+
+describe('formatQuestionPack', () => {
+  const pack: QuestionPack = {
+    id: 'operators',
+    name: 'Operators, "logical" ones',
+    description: 'Bars | and backslashes',
+    categories: ['Code'],
+    difficulty: 'easy',
+    questions: [
+      {
+        question: 'Which is OR?',
+        correct_answer: 'a || b',
+        incorrect_answers: ['a | b', 'a \\ b', 'a \\| b'],
+        category: 'Code',
+        difficulty: 'easy',
+        type: 'multiple'
+      }
+    ],
+    createdAt: '2026-03-01T12:00:00.000Z',
+    updatedAt: '2026-03-01T12:00:00.000Z'
+  };
+
+  it.each(['csv', 'json'] as const)('writes %s that reads back the same', format => {
+    const parsed = parseQuestionPack(formatQuestionPack(pack, format), format);
+
+    expect(parsed).toMatchObject({ name: pack.name, description: pack.description, issues: [] });
+    expect(parsed.questions).toHaveLength(1);
+    expect(parsed.questions[0].correct_answer).toBe('a || b');
+    expect(sorted(parsed.questions[0].incorrect_answers)).toEqual(sorted(pack.questions[0].incorrect_answers));
+  });
+});
+
+describe('detectPackFormat', () => {
+  it('goes by the extension, then the contents', () => {
+    expect(detectPackFormat('[]', 'pack.csv')).toBe('csv');
+    expect(detectPackFormat('  {"questions": []}')).toBe('json');
+    expect(detectPackFormat('question,correct_answer')).toBe('csv');
+  });
+});
@@ -0,0 +1,323 @@
+import { LocalQuestionProvider } from './local-provider';
+import { normalizeQuestion, questionFingerprint, questionProblem, sanitizeText } from './normalize';
+import {
+  difficulties,
+  questionTypes,
+  type Difficulty,
+  type Question,
+  type QuestionProvider,
+  type QuestionType,
+  type RawQuestion
+} from './types';
+
+// Question packs: named sets of local questions (e.g. on internal topics) imported from JSON or CSV
+
+export const questionPackFormats = ['json', 'csv'] as const;
+export type QuestionPackFormat = (typeof questionPackFormats)[number];
+
+export interface QuestionPackMetadata {
+  name: string;
+  author?: string;
+  description?: string;
+  // Worked out from the questions when the pack is imported
+  categories: string[];
+  difficulty: Difficulty | 'mixed';
+}
+
+export interface QuestionPack extends QuestionPackMetadata {
+  // Slug of the name, used to pick the pack when starting a game
+  id: string;
+  // Validated and cleaned up, in the raw source shape so a local provider can serve them
+  questions: RawQuestion[];
+  // Player who imported or generated the pack; only they can replace or export it. Unset when no player was known.
+  ownerId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A question left out of the pack. CSV lines are counted in the file; JSON questions by position in the list.
+export interface QuestionPackIssue {
+  line: number;
+  problem: string;
+}
+
+export interface ParsedQuestionPack {
+  // Whatever metadata the file declares
+  name?: string;
+  author?: string;
+  description?: string;
+  difficulty?: string;
+  questions: RawQuestion[];
+  issues: QuestionPackIssue[];
+}
+
+// The file itself can't be read as a pack (as opposed to single bad questions)
+export class QuestionPackFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuestionPackFormatError';
+  }
+}
+
+// CSV columns in export order; list columns separate their entries with "|", written as "\|" inside an entry
+const CSV_COLUMNS = ['question', 'correct_answer', 'incorrect_answers', 'category', 'difficulty', 'type', 'accepted_answers', 'explanation'] as const;
+const CSV_LIST_COLUMNS = new Set(['incorrect_answers', 'accepted_answers']);
+// "# name: Internal tools" lines before the CSV header carry the pack metadata
+const CSV_METADATA_KEYS = ['name', 'author', 'description', 'difficulty'] as const;
+
+export function questionPackId(name: string): string {
+  return sanitizeText(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Format from the file extension, or from the first character of the contents
+export function detectPackFormat(contents: string, path?: string): QuestionPackFormat {
+  if (path && /\.csv$/i.test(path)) return 'csv';
+  if (path && /\.json$/i.test(path)) return 'json';
+  return /^\s*[[{]/.test(contents) ? 'json' : 'csv';
+}
+
+// Split CSV text into records, keeping the line each record starts on. Handles quoted fields with commas,
+// doubled quotes and line breaks.
+function parseCsvRecords(contents: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+    if (quoted) {
+      if (char === '"' && contents[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && contents[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new QuestionPackFormatError(`Unclosed quote in the record starting on line ${recordLine}`);
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+  // Blank lines are not questions
+  return records.filter(record => record.fields.some(value => value.trim() !== ''));
+}
+
+// Split a list column on "|". "\|" is a bar and "\\" a backslash within an entry; other backslashes are kept as they are.
+function splitCsvList(value: string): string[] {
+  const entries: string[] = [];
+  let entry = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && (value[i + 1] === '|' || value[i + 1] === '\\')) {
+      entry += value[++i];
+    } else if (char === '|') {
+      entries.push(entry);
+      entry = '';
+    } else {
+      entry += char;
+    }
+  }
+  entries.push(entry);
+  return entries.map(text => text.trim()).filter(Boolean);
+}
+
+function joinCsvList(values: string[]): string {
+  return values.map(value => value.replace(/[\\|]/g, char => `\\${char}`)).join('|');
+}
+
+function parseCsvPack(contents: string): Omit<ParsedQuestionPack, 'questions' | 'issues'> & { entries: Array<{ line: number; raw: unknown }> } {
+  const records = parseCsvRecords(contents.replace(/^\uFEFF/, ''));
+  const metadata: Record<string, string> = {};
+  while (records.length > 0 && records[0].fields[0].trimStart().startsWith('#')) {
+    const match = /^#\s*([a-z]+)\s*:\s*(.*)$/i.exec(records.shift()!.fields.join(',').trim());
+    if (match && (CSV_METADATA_KEYS as readonly string[]).includes(match[1].toLowerCase())) {
+      metadata[match[1].toLowerCase()] = match[2];
+    }
+  }
+
+  const header = records.shift();
+  if (!header) throw new QuestionPackFormatError('The CSV has no header row');
+  const columns = header.fields.map(name => name.trim().toLowerCase());
+  const missing = ['question', 'correct_answer'].filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new QuestionPackFormatError(`The CSV header on line ${header.line} is missing ${missing.join(' and ')}. Expected columns: ${CSV_COLUMNS.join(', ')}`);
+  }
+
+  const entries = records.map(record => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = record.fields[i] ?? '';
+      if (CSV_LIST_COLUMNS.has(column)) raw[column] = splitCsvList(value);
+      else if (value.trim() !== '') raw[column] = value;
+    });
+    return { line: record.line, raw };
+  });
+  return { ...metadata, entries };
+}
+
+function parseJsonPack(contents: string): Omit<ParsedQuestionPack, 'questions' | 'issues'> & { entries: Array<{ line: number; raw: unknown }> } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    // The parser's message quotes the input, so it isn't passed on
+    throw new QuestionPackFormatError("The pack isn't valid JSON. Check for missing commas, quotes or brackets.");
+  }
+
+  // Accept either a bare array or { name, author, ..., questions: [...] }
+  const pack = (Array.isArray(parsed) ? { questions: parsed } : parsed) as Record<string, unknown> | null;
+  if (!pack || !Array.isArray(pack.questions)) {
+    throw new QuestionPackFormatError('A JSON pack must be a list of questions or an object with a "questions" list');
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    name: text(pack.name),
+    author: text(pack.author),
+    description: text(pack.description),
+    difficulty: text(pack.difficulty),
+    entries: pack.questions.map((raw, i) => ({ line: i + 1, raw }))
+  };
+}
+
+// Why an entry can't go in the pack, or undefined if it can
+function entryProblem(raw: Partial<RawQuestion>, normalized: Question): string | undefined {
+  if (raw.type !== undefined && !questionTypes.includes(raw.type as QuestionType)) {
+    return `unknown type "${raw.type}" (expected ${questionTypes.join(', ')})`;
+  }
+  if (!difficulties.includes(normalized.difficulty as Difficulty)) {
+    return `unknown difficulty "${normalized.difficulty}" (expected ${difficulties.join(', ')})`;
+  }
+
+  const problem = questionProblem(normalized);
+  if (problem) return problem;
+
+  if (normalized.type === 'multiple') {
+    // normalizeQuestion quietly drops these; a pack author should hear about them
+    const correct = sanitizeText(raw.correct_answer).toLowerCase();
+    const seen = new Set<string>();
+    for (const option of Array.isArray(raw.incorrect_answers) ? raw.incorrect_answers : []) {
+      const text = sanitizeText(option);
+      if (!text) return 'empty option';
+      if (text.toLowerCase() === correct) return `option "${text}" repeats the correct answer`;
+      if (seen.has(text.toLowerCase())) return `duplicate option "${text}"`;
+      seen.add(text.toLowerCase());
+    }
+  }
+  return undefined;
+}
+
+// Validate one entry from an imported or generated set of questions. Returns it cleaned up in the raw source
+// shape, or why it can't be used.
+export function checkRawQuestion(raw: unknown, defaultDifficulty?: string): { question: RawQuestion } | { problem: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { problem: 'not a question object' };
+
+  const entry = raw as Partial<RawQuestion>;
+  const normalized = normalizeQuestion({ ...entry, difficulty: entry.difficulty ?? defaultDifficulty } as RawQuestion, 0);
+  const problem = entryProblem(entry, normalized);
+  if (problem) return { problem };
+
+  return {
+    question: {
+      category: normalized.category,
+      type: normalized.type,
+      difficulty: normalized.difficulty,
+      question: normalized.question,
+      correct_answer: normalized.correct,
+      incorrect_answers: normalized.type === 'multiple' ? normalized.options.filter(option => option !== normalized.correct) : [],
+      accepted_answers: normalized.acceptedAnswers,
+      explanation: normalized.explanation
+    }
+  };
+}
+
+// Read a pack file and validate every question against the Question rules. Bad questions are left out and
+// reported; only a file that can't be read at all throws.
+export function parseQuestionPack(contents: string, format: QuestionPackFormat): ParsedQuestionPack {
+  const { entries, ...metadata } = format === 'csv' ? parseCsvPack(contents) : parseJsonPack(contents);
+  // A single declared difficulty is the default for questions that don't give one
+  const defaultDifficulty = difficulties.includes(metadata.difficulty?.toLowerCase() as Difficulty) ? metadata.difficulty!.toLowerCase() : undefined;
+
+  const questions: RawQuestion[] = [];
+  const issues: QuestionPackIssue[] = [];
+  // Question fingerprint -> line it was first seen on
+  const firstSeen = new Map<string, number>();
+
+  for (const { line, raw } of entries) {
+    const checked = checkRawQuestion(raw, defaultDifficulty);
+    if ('problem' in checked) {
+      issues.push({ line, problem: checked.problem });
+      continue;
+    }
+
+    const fingerprint = questionFingerprint(checked.question.question);
+    const duplicateOf = firstSeen.get(fingerprint);
+    if (duplicateOf !== undefined) {
+      issues.push({ line, problem: `duplicate of the question on line ${duplicateOf}` });
+      continue;
+    }
+    firstSeen.set(fingerprint, line);
+    questions.push(checked.question);
+  }
+  return { ...metadata, questions, issues };
+}
+
+// Categories and overall difficulty of a set of pack questions
+export function describePackQuestions(questions: RawQuestion[]): Pick<QuestionPackMetadata, 'categories' | 'difficulty'> {
+  const categories = Array.from(new Set(questions.map(q => q.category))).sort((a, b) => a.localeCompare(b));
+  const levels = new Set(questions.map(q => q.difficulty));
+  return { categories, difficulty: levels.size === 1 ? ([...levels][0] as Difficulty) : 'mixed' };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Write a pack in a format parseQuestionPack reads back
+export function formatQuestionPack(pack: QuestionPack, format: QuestionPackFormat): string {
+  if (format === 'json') {
+    const { name, author, description, categories, difficulty, questions } = pack;
+    return JSON.stringify({ name, author, description, categories, difficulty, questions }, null, 2);
+  }
+
+  // A metadata line is one field: quoted if it has commas or quotes, and kept to one line
+  const metadata = CSV_METADATA_KEYS
+    .filter(key => pack[key])
+    .map(key => csvField(`# ${key}: ${sanitizeText(pack[key])}`));
+  const rows = pack.questions.map(question => CSV_COLUMNS.map(column => {
+    const value = question[column as keyof RawQuestion];
+    return csvField(Array.isArray(value) ? joinCsvList(value) : value ?? '');
+  }).join(','));
+  return [...metadata, CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Serve a pack's questions through the same filters as a local question bank
+export function packQuestionProvider(pack: QuestionPack): QuestionProvider {
+  return new LocalQuestionProvider({ questions: pack.questions, name: `pack:${pack.id}` });
+}
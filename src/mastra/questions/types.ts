@@ -0,0 +1,90 @@
+// Shared question model used by the game tools and the trivia workflow
+
+export const difficulties = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = (typeof difficulties)[number];
+
+export const questionTypes = ['multiple', 'boolean', 'text'] as const;
+// multiple: pick one of the options; boolean: True/False; text: free-text answer, no options
+export type QuestionType = (typeof questionTypes)[number];
+
+export interface Question {
+  id: string;
+  type: QuestionType;
+  category: string;
+  difficulty: string;
+  question: string;
+  options: string[];
+  correct: string;
+  // Extra spellings accepted for free-text questions
+  acceptedAnswers?: string[];
+  // Why the answer is correct, from the source or generated after the question was answered
+  explanation?: string;
+  // Name of the question source that served it, when it came through a fallback chain
+  source?: string;
+  answered: boolean;
+  userAnswer?: string;
+  // Verdict stored when the answer is submitted, so stats never re-judge it
+  answeredCorrectly?: boolean;
+  skipped?: boolean;
+  hintsUsed?: number;
+  // Lifeline effects on this question
+  extraSeconds?: number;
+  doubleOrNothing?: boolean;
+  pointsEarned?: number;
+  // Server-side time the question was shown to the player (ISO string)
+  issuedAt?: string;
+  // Random id given when the question is issued; answers carry it so they can't land on another question
+  nonce?: string;
+  timedOut?: boolean;
+}
+
+// Raw question shape returned by OpenTDB (also used by local question banks)
+export type RawQuestion = {
+  category: string;
+  type?: string;
+  difficulty: string;
+  question: string;
+  correct_answer: string;
+  incorrect_answers: string[];
+  // Local banks only: alternative answers for free-text ("text") questions
+  accepted_answers?: string[];
+  // Local banks only: short explanation of the correct answer
+  explanation?: string;
+};
+
+export interface QuestionQuery {
+  amount: number;
+  // Category name (OpenTDB also accepts its numeric id)
+  category?: string;
+  difficulty?: Difficulty;
+  // Restrict to one question type; omit for any type the source offers
+  type?: QuestionType;
+  // Stable key (e.g. the player id) for sources that can avoid repeats across requests
+  sessionKey?: string;
+}
+
+// A category offered by a question source; only OpenTDB categories have an id
+export interface QuestionCategory {
+  id?: number;
+  name: string;
+}
+
+// A source of trivia questions (OpenTDB, a local bank, a fallback chain, ...)
+export interface QuestionProvider {
+  readonly name: string;
+  fetchQuestions(query: QuestionQuery): Promise<Question[]>;
+  listCategories(): Promise<QuestionCategory[]>;
+}
+
+export type QuestionSourceErrorCode = 'UNAVAILABLE' | 'RATE_LIMITED' | 'NO_RESULTS' | 'INVALID_QUERY';
+
+export class QuestionSourceError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string,
+    public readonly code: QuestionSourceErrorCode = 'UNAVAILABLE'
+  ) {
+    super(message);
+    this.name = 'QuestionSourceError';
+  }
+}
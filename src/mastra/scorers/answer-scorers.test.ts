@@ -0,0 +1,111 @@
+import type { ScorerRunOutputForAgent } from '@mastra/core/scores';
+import { createAgentTestRun } from '@mastra/evals/scorers/utils';
+import { describe, expect, it } from 'vitest';
+import { answerConsistencyScorer, answerLeakScorer } from './answer-scorers';
+
+const nextQuestion = {
+  index: 2,
+  type: 'multiple',
+  question: 'What is the capital of Italy?',
+  options: ['Paris', 'Rome', 'Madrid', 'Oslo'],
+  category: 'Geography',
+  difficulty: 'easy',
+  questionToken: 'question-2'
+};
+
+const missed = {
+  success: true,
+  correct: false,
+  timedOut: false,
+  responseSeconds: 3,
+  speedBonus: 0,
+  pointsEarned: 0,
+  score: 10,
+  message: '❌ Incorrect. The correct answer was: Paris',
+  correctAnswer: 'Paris',
+  streak: 0,
+  rating: 1000,
+  ratingChange: -5,
+  nextQuestion,
+  gameCompleted: false,
+  achievements: []
+};
+
+// 10 base points, a 2 point streak bonus and a 3 point speed bonus
+const answered = {
+  ...missed,
+  correct: true,
+  speedBonus: 3,
+  pointsEarned: 15,
+  score: 25,
+  message: '✅ Correct! +15 points. 🔥 Streak bonus: +2! ⚡ Speed bonus: +3! Current streak: 2.',
+  streak: 2
+};
+
+let calls = 0;
+const answerCall = (result: Record<string, unknown>, questionToken = 'question-1') => ({
+  toolCallId: `call-${++calls}`,
+  toolName: 'answerQuestionTool',
+  args: { answer: 'B', questionToken },
+  result,
+  state: 'result' as const
+});
+
+// A run whose only reply is this text, after these tool calls
+function agentRun(reply: string, toolInvocations: ReturnType<typeof answerCall>[]) {
+  const output: ScorerRunOutputForAgent = [
+    { id: 'reply', role: 'assistant', content: reply, parts: [{ type: 'text', text: reply }], toolInvocations }
+  ];
+  return createAgentTestRun({ output });
+}
+
+describe('answerConsistencyScorer', () => {
+  it('passes feedback that matches the answer result', async () => {
+    const result = await answerConsistencyScorer.run(agentRun('✅ Correct! +15 points, for a total of 25.', [answerCall(answered)]));
+    expect(result.score).toBe(1);
+  });
+
+  it('flags the wrong verdict', async () => {
+    const result = await answerConsistencyScorer.run(agentRun('✅ Correct! Well done.', [answerCall(missed)]));
+    expect(result.score).toBeLessThan(1);
+    expect(result.reason).toContain('verdict');
+  });
+
+  it('reads negated praise as a miss', async () => {
+    for (const reply of ['That is not correct. The answer was Paris.', 'You got it wrong, it was Paris.', "Sorry, that isn't right: Paris."]) {
+      const result = await answerConsistencyScorer.run(agentRun(reply, [answerCall(missed)]));
+      expect(result.score, reply).toBe(1);
+    }
+  });
+
+  it('ignores bonus breakdowns when checking points', async () => {
+    const reply = '✅ Correct! +15 points, including a 2 point streak bonus and a +3 speed bonus. Streak bonus: +2 points!';
+    const result = await answerConsistencyScorer.run(agentRun(reply, [answerCall(answered)]));
+    expect(result.score).toBe(1);
+  });
+
+  it('flags points that match neither the gain nor the total', async () => {
+    const result = await answerConsistencyScorer.run(agentRun('✅ Correct! +20 points.', [answerCall(answered)]));
+    expect(result.reason).toContain('points (reply said 20');
+  });
+
+  it('leaves penalties out of the points', async () => {
+    const result = await answerConsistencyScorer.run(agentRun('✅ Correct! +15 points (hint: -2 points).', [answerCall(answered)]));
+    expect(result.score).toBe(1);
+  });
+});
+
+describe('answerLeakScorer', () => {
+  it('passes feedback naming the answer that was just given', async () => {
+    const reply = '❌ The correct answer was Paris. Next: What is the capital of Italy? A. Paris B. Rome C. Madrid D. Oslo';
+    const result = await answerLeakScorer.run(agentRun(reply, [answerCall(missed)]));
+    expect(result.score).toBe(1);
+  });
+
+  it('flags an answer to the open question', async () => {
+    const reply = '❌ The correct answer was Paris. Next: What is the capital of Italy? (psst, the answer is B. Rome)';
+    const result = await answerLeakScorer.run(agentRun(reply, [answerCall(missed)]));
+    expect(result.score).toBe(0);
+    expect(result.reason).toContain('What is the capital of Italy?');
+  });
+});
@@ -0,0 +1,277 @@
+import { createScorer } from '@mastra/core/scores';
+import type { ScorerRunOutputForAgent } from '@mastra/core/scores';
+import type { z } from 'zod';
+import { normalizeFreeText } from '../game/answers';
+import type { answerQuestionTool } from '../tools/game-tools';
+
+// Deterministic scorers: they compare the reply with the tool results recorded in the run, so no judge model is needed
+
+// Agent runs record tools under their key in the agent's tools map, direct tool runs under the tool id
+const ANSWER_TOOL_NAMES = new Set(['answer-trivia-question', 'answerQuestionTool']);
+
+const INCORRECT_WORDING = /❌|⏰|\bincorrect\b|\bwrong\b|\b(?:not|isn['’]?t|wasn['’]?t) (?:quite|right|correct)\b|\btime'?s up\b|\bout of time\b|\bnope\b/i;
+const CORRECT_WORDING = /✅|\bcorrect\b|\bthat'?s right\b|\byou'?re right\b|\byou got it\b|\bnailed it\b|\bspot on\b/i;
+// Negated praise ("that's not correct", "you got it wrong") says the answer was wrong, so it doesn't count as correct wording
+const NEGATED_CORRECT = /\b(?:not|never|isn['’]?t|wasn['’]?t|aren['’]?t)\s+(?:quite\s+|exactly\s+)?(?:correct|right)\b|\byou got it wrong\b/gi;
+// Phrases that name an answer without judging the player's, e.g. "the correct answer was Paris"
+const ANSWER_MENTION = /\b(?:the )?(?:correct|right) answer\b/gi;
+// "the answer is B. Paris", "correct answer: Paris"
+const ANSWER_REVEAL = /\b(?:correct answer|right answer|the answer)\b\s*(?:is|was|would be|:)\s*:?\s*\**\s*((?:[A-D][.)]\s*)?[^\n!?*.()]+)/gi;
+// Bonus breakdowns ("streak bonus: +2", "a 2 point streak bonus", "+5 speed bonus") are part of the points gained
+const BONUS_FIGURE = /\bbonus\b[:\s]*(?:of\s+)?\+?\s*\d+(?:\s*(?:points?|pts)\b)?|\+?\s*\d+\s*-?\s*(?:points?|pts)?\s*(?:(?:streak|speed)\s+)?bonus\b/gi;
+
+type ToolInvocation = NonNullable<ScorerRunOutputForAgent[number]['toolInvocations']>[number];
+
+// A finished tool call. Arguments and results are whatever the tool returned, so fields are checked before use.
+interface ToolResult {
+  toolName: string;
+  args: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+// A successful answer-trivia-question result
+type AnswerResult = Extract<z.infer<typeof answerQuestionTool.outputSchema>, { success: true }>;
+
+// One step of an assistant message: some text, or a finished tool call
+type ReplyStep = { text: string } | { call: ToolResult };
+
+interface QuestionSeen {
+  questionToken: string;
+  question: string;
+  type: string;
+  options: string[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function toToolResult(invocation: Extract<ToolInvocation, { state: 'result' }>): ToolResult {
+  return { toolName: invocation.toolName, args: asRecord(invocation.args), result: asRecord(invocation.result) };
+}
+
+// Each assistant message as its steps in order. Tool calls missing from the parts are taken to come before the text.
+function assistantSteps(messages: ScorerRunOutputForAgent): ReplyStep[][] {
+  return messages
+    .filter(message => message.role === 'assistant')
+    .map(message => {
+      const parts = message.parts?.length ? message.parts : [{ type: 'text' as const, text: typeof message.content === 'string' ? message.content : '' }];
+      const steps = parts.flatMap((part): ReplyStep[] => {
+        if (part.type === 'text') return [{ text: part.text }];
+        if (part.type === 'tool-invocation' && part.toolInvocation.state === 'result') return [{ call: toToolResult(part.toolInvocation) }];
+        return [];
+      });
+      const inParts = new Set(parts.flatMap(part => (part.type === 'tool-invocation' ? [part.toolInvocation.toolCallId] : [])));
+      const unlisted = (message.toolInvocations ?? [])
+        .flatMap(invocation =>
+          invocation.state === 'result' && !inParts.has(invocation.toolCallId) ? [{ call: toToolResult(invocation) }] : []
+        );
+      return [...unlisted, ...steps];
+    });
+}
+
+function replyText(steps: ReplyStep[]) {
+  return steps.flatMap(step => ('text' in step ? [step.text] : [])).join('\n');
+}
+
+function replyCalls(steps: ReplyStep[]) {
+  return steps.flatMap(step => ('call' in step ? [step.call] : []));
+}
+
+function answerResult(call: ToolResult): AnswerResult | undefined {
+  return ANSWER_TOOL_NAMES.has(call.toolName) && call.result.success === true ? (call.result as AnswerResult) : undefined;
+}
+
+function mentions(text: string, phrase: string) {
+  const target = normalizeFreeText(phrase);
+  return target.length > 0 && ` ${normalizeFreeText(text)} `.includes(` ${target} `);
+}
+
+// 'correct', 'incorrect', or undefined when the reply says neither or both
+function statedVerdict(text: string): 'correct' | 'incorrect' | undefined {
+  const incorrect = INCORRECT_WORDING.test(text);
+  const correct = CORRECT_WORDING.test(text.replace(ANSWER_MENTION, '').replace(NEGATED_CORRECT, ''));
+  if (correct === incorrect) return undefined;
+  return correct ? 'correct' : 'incorrect';
+}
+
+// Point figures the reply states, e.g. "+15 points", "15 pts", "score: 40". Penalties ("-2 points") aren't
+// points gained, so figures after a minus sign are left out, and so are bonus breakdowns.
+function statedPoints(reply: string): number[] {
+  const text = reply.replace(BONUS_FIGURE, ' ');
+  const figures = [
+    ...text.matchAll(/(?<![-−–]\s*)(?<!\d)\+?\s*(\d+)\s*(?:points?|pts)\b/gi),
+    ...text.matchAll(/\bscore\b[^\d\n]{0,20}(\d+)/gi)
+  ];
+  return figures.map(match => Number(match[1]));
+}
+
+interface AnswerCheck {
+  check: 'verdict' | 'points' | 'correctAnswer';
+  passed: boolean;
+  detail: string;
+}
+
+function checkAnswerFeedback(text: string, result: AnswerResult): AnswerCheck[] {
+  const verdict = result.correct ? 'correct' : 'incorrect';
+  const stated = statedVerdict(text);
+  const gained = result.pointsEarned;
+  const points = statedPoints(text);
+  const checks: AnswerCheck[] = [{
+    check: 'verdict',
+    passed: stated === verdict,
+    detail: `tool said ${verdict}, reply said ${stated ?? 'nothing clear'}`
+  }];
+
+  // A correct answer must report its points; any figure given must match the points gained or the new total
+  if (result.correct || points.length > 0) {
+    const wrong = points.filter(value => value !== gained && value !== result.score);
+    checks.push({
+      check: 'points',
+      passed: points.length > 0 && wrong.length === 0,
+      detail: points.length === 0
+        ? `reply gave no points (tool: +${gained}, total ${result.score})`
+        : `reply said ${points.join(', ')} (tool: +${gained}, total ${result.score})`
+    });
+  }
+
+  if (!result.correct) {
+    checks.push({
+      check: 'correctAnswer',
+      passed: mentions(text, result.correctAnswer),
+      detail: `correct answer "${result.correctAnswer}"`
+    });
+  }
+  return checks;
+}
+
+// Does the reply agree with the answer-trivia-question results: same verdict, same points, and the right correct answer?
+export const answerConsistencyScorer = createScorer({
+  name: 'Answer Feedback Consistency',
+  description:
+    'Checks the reply against the answer-trivia-question results in the run: the same correct/incorrect verdict, ' +
+    'the same points, and the correct answer named after a miss.',
+  type: 'agent',
+})
+  .preprocess(({ run }) => {
+    const steps = assistantSteps(run.output).flat();
+    const text = replyText(steps);
+    const answers = replyCalls(steps).flatMap(call => answerResult(call) ?? []);
+    return { checks: answers.flatMap(answer => checkAnswerFeedback(text, answer)) };
+  })
+  .generateScore(({ results }) => {
+    const { checks } = results.preprocessStepResult;
+    if (checks.length === 0) return 1;
+    return checks.filter(check => check.passed).length / checks.length;
+  })
+  .generateReason(({ results, score }) => {
+    const { checks } = results.preprocessStepResult;
+    if (checks.length === 0) return 'No answer-trivia-question results in this run, nothing to check.';
+    const failed = checks.filter(check => !check.passed);
+    if (failed.length === 0) return `All ${checks.length} checks passed. Score=${score}.`;
+    return `Failed ${failed.length} of ${checks.length} checks: ${failed.map(check => `${check.check} (${check.detail})`).join('; ')}. Score=${score}.`;
+  });
+
+// Question payloads anywhere in a tool result (currentQuestion, nextQuestion, ...)
+function questionsIn(value: unknown, found: QuestionSeen[] = []): QuestionSeen[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => questionsIn(item, found));
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.questionToken === 'string' && typeof record.question === 'string' && Array.isArray(record.options)) {
+      found.push({
+        questionToken: record.questionToken,
+        question: record.question,
+        type: typeof record.type === 'string' ? record.type : 'multiple',
+        options: record.options.map(String)
+      });
+    }
+    Object.values(record).forEach(item => questionsIn(item, found));
+  }
+  return found;
+}
+
+// Answers the reply hands out: the text after "the answer is", "correct answer:" and the like
+function revealedAnswers(text: string): string[] {
+  return [...text.matchAll(ANSWER_REVEAL)].map(match => match[1].trim());
+}
+
+// Does a revealed answer point at this option, by text or by letter ("B", "B. Paris", "B) Paris")?
+function namesOption(revealed: string, question: QuestionSeen, option: string) {
+  const letter = String.fromCharCode(65 + question.options.indexOf(option));
+  return mentions(revealed, option) || new RegExp(`^\\(?${letter}\\b(?:[.):]|$)`).test(revealed);
+}
+
+interface AnswerLeak {
+  questionToken: string;
+  question: string;
+  revealed: string;
+}
+
+// Text sent while a question is still open that gives its answer away
+function leaksIn(text: string, open: QuestionSeen[], knownAnswers: Map<string, string>, justRevealed: string[]): AnswerLeak[] {
+  // Naming the answer to the question just answered is the feedback we want, not a leak
+  const revealed = revealedAnswers(text).filter(phrase => !justRevealed.some(answer => answer && mentions(phrase, answer)));
+  const leaks: AnswerLeak[] = [];
+  for (const question of open) {
+    const correct = knownAnswers.get(question.questionToken);
+    // Free-text questions list no options, so naming the answer anywhere gives it away
+    if (correct && question.type === 'text' && mentions(text, correct)) {
+      leaks.push({ questionToken: question.questionToken, question: question.question, revealed: correct });
+      continue;
+    }
+    // Otherwise flag "the answer is ..." naming one of the open question's options: the right one if a later
+    // answer result tells us which it is, any of them if none does
+    const candidates = correct ? [correct] : question.options;
+    const phrase = revealed.find(candidate => candidates.some(option => namesOption(candidate, question, option)));
+    if (phrase) leaks.push({ questionToken: question.questionToken, question: question.question, revealed: phrase });
+  }
+  return leaks;
+}
+
+// Flags replies that give away the answer to a question the player hasn't answered yet
+export const answerLeakScorer = createScorer({
+  name: 'Answer Leak',
+  description:
+    'Flags replies that reveal the correct answer to a question before the player has answered it. ' +
+    'Scores 1 when nothing leaks and 0 when any reply gives an answer away.',
+  type: 'agent',
+})
+  .preprocess(({ run }) => {
+    const remembered = assistantSteps(run.input?.rememberedMessages ?? []);
+    const replies = assistantSteps(run.output);
+
+    // Correct answers come from answer results anywhere in the conversation, keyed by question token
+    const knownAnswers = new Map<string, string>();
+    for (const call of [...remembered, ...replies].flatMap(replyCalls)) {
+      const answer = answerResult(call);
+      if (answer && typeof call.args.questionToken === 'string') knownAnswers.set(call.args.questionToken, answer.correctAnswer);
+    }
+
+    // Walk the conversation in order: a question is open from the result that presents it until the one answering it.
+    // Earlier turns only set up which questions are open; only this run's replies are scored.
+    const open = new Map<string, QuestionSeen>();
+    const leaks: AnswerLeak[] = [];
+    for (const [index, message] of [...remembered, ...replies].entries()) {
+      const justRevealed: string[] = [];
+      for (const step of message) {
+        if ('call' in step) {
+          // Answering or skipping closes the question
+          const { args, result } = step.call;
+          if (result.success === true && typeof args.questionToken === 'string') open.delete(args.questionToken);
+          const answer = answerResult(step.call);
+          if (answer) justRevealed.push(answer.correctAnswer);
+          for (const question of questionsIn(step.call.result)) open.set(question.questionToken, question);
+        } else if (index >= remembered.length) {
+          leaks.push(...leaksIn(step.text, [...open.values()], knownAnswers, justRevealed));
+        }
+      }
+    }
+    return { leaks };
+  })
+  .generateScore(({ results }) => (results.preprocessStepResult.leaks.length > 0 ? 0 : 1))
+  .generateReason(({ results }) => {
+    const { leaks } = results.preprocessStepResult;
+    if (leaks.length === 0) return 'No reply revealed the answer to an unanswered question.';
+    return `Answer revealed before the player answered: ${leaks.map(leak => `"${leak.question}" (${leak.revealed})`).join('; ')}.`;
+  });
@@ -2,6 +2,9 @@ import { z } from 'zod';
 import { createToolCallAccuracyScorerCode } from '@mastra/evals/scorers/code';
 import { createCompletenessScorer } from '@mastra/evals/scorers/code';
 import { createScorer } from '@mastra/core/scores';
+import { answerConsistencyScorer, answerLeakScorer } from './answer-scorers';
+
+export { answerConsistencyScorer, answerLeakScorer } from './answer-scorers';
 
 // Tool-call scorer: ensures the agent used the answer/feedback tools appropriately
 export const toolCallAppropriatenessScorer = createToolCallAccuracyScorerCode({
@@ -60,4 +63,6 @@ export const scorers = {
   toolCallAppropriatenessScorer,
   completenessScorer,
   answerFeedbackScorer,
+  answerConsistencyScorer,
+  answerLeakScorer,
 };
@@ -0,0 +1,176 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { ApiRoute, ContextWithMastra } from '@mastra/core/server';
+import { z } from 'zod';
+import type { GameErrorCode } from '../game/errors';
+import { subscribeToGameEvents, type GameEvent } from '../game/events';
+import {
+  answerQuestionTool,
+  getAchievementsTool,
+  getCurrentQuestionTool,
+  getGameStatsTool,
+  getHintTool,
+  getLeaderboardTool,
+  getPlayerProfileTool,
+  skipQuestionTool,
+  startGameTool,
+  useLifelineTool
+} from '../tools/game-tools';
+import { PLAYER_ID_CONTEXT_KEY } from '../tools/player-identity';
+
+// REST and server-sent events API for clients that drive games without the chat (web and Slack frontends).
+// Each route runs the same tool the agent calls, so inputs, results and error codes match the tools.
+
+// The player a request acts for, and its signature: the hex HMAC-SHA256 of the player id keyed with TRIVIA_API_SECRET.
+// The frontend's backend signs the ids it has authenticated, so a client can't name any player it likes.
+export const PLAYER_HEADER = 'x-trivia-player';
+export const SIGNATURE_HEADER = 'x-trivia-signature';
+// Comment lines that keep idle event streams open through proxies
+const HEARTBEAT_MS = 15000;
+
+// HTTP status of a failed game result; other codes conflict with the game's state
+const errorStatus: Partial<Record<GameErrorCode, number>> = {
+  UNKNOWN_PLAYER: 401,
+  NO_ACTIVE_GAME: 404,
+  UNKNOWN_CATEGORY: 404,
+  UNKNOWN_PACK: 404,
+  NO_QUESTIONS: 404,
+  INVALID_ANSWER: 400,
+  RATE_LIMITED: 429,
+  SOURCE_UNAVAILABLE: 503
+};
+
+export function signPlayerId(playerId: string, secret: string): string {
+  return createHmac('sha256', secret).update(playerId).digest('hex');
+}
+
+function isSignedBy(secret: string, playerId: string, signature: string) {
+  const expected = Buffer.from(signPlayerId(playerId, secret), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function unauthorized(message: string) {
+  return Response.json({ success: false, code: 'UNKNOWN_PLAYER', message }, { status: 401 });
+}
+
+// What the routes need from a game tool: the input its schema parses is what it executes with
+interface RouteTool<TInput> {
+  inputSchema?: z.ZodType<TInput>;
+  execute?(call: { context: TInput; runtimeContext: RuntimeContext }): Promise<unknown>;
+}
+
+// The named player if the signature matches: '' when no player is named, undefined when the signature is wrong
+function verifiedPlayer(secret: string, player: string | undefined, signature: string | undefined) {
+  const playerId = player?.trim();
+  if (!playerId) return '';
+  return signature && isSignedBy(secret, playerId, signature.trim()) ? playerId : undefined;
+}
+
+function requestPlayer(c: ContextWithMastra, secret: string) {
+  return verifiedPlayer(secret, c.req.header(PLAYER_HEADER), c.req.header(SIGNATURE_HEADER));
+}
+
+// Run a tool for the request's player. The player only ever comes from the signed header: a playerId argument
+// or runtimeContext entry sent by the client is ignored.
+async function runTool<TInput>(c: ContextWithMastra, secret: string, tool: RouteTool<TInput>, input: Record<string, unknown>) {
+  const playerId = requestPlayer(c, secret);
+  if (playerId === undefined) return unauthorized(`The ${SIGNATURE_HEADER} header doesn't match the player.`);
+
+  const parsed = tool.inputSchema!.safeParse({ ...input, playerId: undefined });
+  if (!parsed.success) {
+    return Response.json({ success: false, code: 'INVALID_REQUEST', message: z.prettifyError(parsed.error) }, { status: 400 });
+  }
+
+  const runtimeContext = c.get('runtimeContext');
+  runtimeContext.set(PLAYER_ID_CONTEXT_KEY, playerId);
+  const result = (await tool.execute!({ context: parsed.data, runtimeContext })) as { success?: boolean; code?: GameErrorCode };
+  const status = result.success === false ? errorStatus[result.code!] ?? 409 : 200;
+  return Response.json(result, { status });
+}
+
+async function jsonBody(c: ContextWithMastra): Promise<Record<string, unknown>> {
+  const body = await c.req.json().catch(() => ({}));
+  return body && typeof body === 'object' && !Array.isArray(body) ? body : {};
+}
+
+// Query parameters, with the numeric ones as numbers
+function queryInput(c: ContextWithMastra, numeric: string[] = []) {
+  const query: Record<string, unknown> = { ...c.req.query() };
+  for (const key of numeric) {
+    if (query[key] !== undefined) query[key] = Number(query[key]);
+  }
+  return query;
+}
+
+// Server-sent events for one player: game events as they happen, and the host's streamed text
+function eventStream(playerId: string, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let stop = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      const unsubscribe = subscribeToGameEvents(playerId, (event: GameEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+      stop = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      // The client went away; the stream may already be cancelled
+      signal.addEventListener('abort', () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      });
+      send(': connected\n\n');
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' }
+  });
+}
+
+// Built directly rather than with registerApiRoute(), whose handler type leaves out the runtime context the server sets
+function route(method: 'GET' | 'POST', path: string, handler: (c: ContextWithMastra) => Promise<Response>): ApiRoute {
+  return { path, method, handler };
+}
+
+// Routes for the given shared secret
+export function createTriviaApiRoutes(secret: string): ApiRoute[] {
+  const run = <TInput>(c: ContextWithMastra, tool: RouteTool<TInput>, input: Record<string, unknown>) => runTool(c, secret, tool, input);
+
+  return [
+    route('POST', '/trivia/games', async c => run(c, startGameTool, await jsonBody(c))),
+    route('GET', '/trivia/games/current', async c => run(c, getCurrentQuestionTool, {})),
+    route('POST', '/trivia/games/current/answer', async c => run(c, answerQuestionTool, await jsonBody(c))),
+    route('POST', '/trivia/games/current/hint', async c => run(c, getHintTool, await jsonBody(c))),
+    route('POST', '/trivia/games/current/lifeline', async c => run(c, useLifelineTool, await jsonBody(c))),
+    route('POST', '/trivia/games/current/skip', async c => run(c, skipQuestionTool, await jsonBody(c))),
+    route('GET', '/trivia/games/current/stats', async c => run(c, getGameStatsTool, {})),
+    route('GET', '/trivia/profile', async c => run(c, getPlayerProfileTool, {})),
+    route('GET', '/trivia/achievements', async c => run(c, getAchievementsTool, {})),
+    route('GET', '/trivia/leaderboard', async c => run(c, getLeaderboardTool, queryInput(c, ['page', 'pageSize']))),
+    // EventSource can't send headers, so browsers may name the player and signature in the query instead
+    route('GET', '/trivia/events', async c => {
+      const playerId = c.req.header(PLAYER_HEADER)
+        ? requestPlayer(c, secret)
+        : verifiedPlayer(secret, c.req.query('player'), c.req.query('signature'));
+      if (!playerId) {
+        return unauthorized(`Name the player in the ${PLAYER_HEADER} and ${SIGNATURE_HEADER} headers, or the player and signature query parameters.`);
+      }
+      return eventStream(playerId, c.req.raw.signal);
+    })
+  ];
+}
+
+// Off unless TRIVIA_API_SECRET is set: without it nothing could tell whose game a request is for
+export const triviaApiRoutes: ApiRoute[] = process.env.TRIVIA_API_SECRET ? createTriviaApiRoutes(process.env.TRIVIA_API_SECRET) : [];
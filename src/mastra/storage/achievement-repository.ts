@@ -0,0 +1,65 @@
+import type { Client } from '@libsql/client';
+import { ensureMigrated } from './migrations';
+
+export interface UnlockedAchievement {
+  playerId: string;
+  achievementId: string;
+  // What earned it, when the badge is about something specific (e.g. the category)
+  detail?: string;
+  // Game that unlocked it
+  gameId: string;
+  unlockedAt: string;
+}
+
+// Badges each player has unlocked; each one is earned once per detail
+export interface AchievementRepository {
+  // A player's badges, oldest first
+  list(playerId: string): Promise<UnlockedAchievement[]>;
+  // Returns false if the player already has this badge with the same detail
+  unlock(achievement: UnlockedAchievement): Promise<boolean>;
+}
+
+export class InMemoryAchievementRepository implements AchievementRepository {
+  private readonly achievements = new Map<string, UnlockedAchievement>();
+
+  async list(playerId: string) {
+    return Array.from(this.achievements.values())
+      .filter(a => a.playerId === playerId)
+      .map(a => ({ ...a }));
+  }
+
+  async unlock(achievement: UnlockedAchievement) {
+    const key = `${achievement.playerId}:${achievement.achievementId}:${achievement.detail ?? ''}`;
+    if (this.achievements.has(key)) return false;
+    this.achievements.set(key, { ...achievement });
+    return true;
+  }
+}
+
+export class LibSQLAchievementRepository implements AchievementRepository {
+  constructor(private readonly client: Client) {}
+
+  async list(playerId: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT * FROM trivia_achievements WHERE player_id = ? ORDER BY unlocked_at, rowid',
+      args: [playerId]
+    });
+    return result.rows.map(row => ({
+      playerId: String(row.player_id),
+      achievementId: String(row.achievement_id),
+      detail: row.detail ? String(row.detail) : undefined,
+      gameId: String(row.game_id),
+      unlockedAt: String(row.unlocked_at)
+    }));
+  }
+
+  async unlock(achievement: UnlockedAchievement) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_achievements (player_id, achievement_id, detail, game_id, unlocked_at) VALUES (?, ?, ?, ?, ?)',
+      args: [achievement.playerId, achievement.achievementId, achievement.detail ?? '', achievement.gameId, achievement.unlockedAt]
+    });
+    return result.rowsAffected > 0;
+  }
+}
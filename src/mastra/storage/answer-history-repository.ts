@@ -0,0 +1,77 @@
+import type { Client, Row } from '@libsql/client';
+import type { QuestionType } from '../questions';
+import type { AnswerRecord, GameMode } from '../game/types';
+import { ensureMigrated } from './migrations';
+
+// Append-only log of every answered or skipped question
+export interface AnswerHistoryRepository {
+  record(answer: AnswerRecord): Promise<void>;
+  // A player's answers, oldest first
+  list(playerId: string): Promise<AnswerRecord[]>;
+}
+
+export class InMemoryAnswerHistoryRepository implements AnswerHistoryRepository {
+  private readonly answers: AnswerRecord[] = [];
+
+  async record(answer: AnswerRecord) {
+    this.answers.push({ ...answer });
+  }
+
+  async list(playerId: string) {
+    return this.answers.filter(a => a.playerId === playerId).map(a => ({ ...a }));
+  }
+}
+
+function toAnswerRecord(row: Row): AnswerRecord {
+  return {
+    gameId: String(row.game_id),
+    playerId: String(row.player_id),
+    mode: String(row.mode) as GameMode,
+    questionId: String(row.question_id),
+    category: String(row.category),
+    difficulty: String(row.difficulty),
+    questionType: String(row.question_type) as QuestionType,
+    correct: Boolean(row.correct),
+    skipped: Boolean(row.skipped),
+    timedOut: Boolean(row.timed_out),
+    hintsUsed: Number(row.hints_used),
+    answeredAt: String(row.answered_at)
+  };
+}
+
+export class LibSQLAnswerHistoryRepository implements AnswerHistoryRepository {
+  constructor(private readonly client: Client) {}
+
+  async record(answer: AnswerRecord) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: `INSERT INTO trivia_answer_history (
+        game_id, player_id, mode, question_id, category, difficulty, question_type,
+        correct, skipped, timed_out, hints_used, answered_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        answer.gameId,
+        answer.playerId,
+        answer.mode,
+        answer.questionId,
+        answer.category,
+        answer.difficulty,
+        answer.questionType,
+        answer.correct ? 1 : 0,
+        answer.skipped ? 1 : 0,
+        answer.timedOut ? 1 : 0,
+        answer.hintsUsed,
+        answer.answeredAt
+      ]
+    });
+  }
+
+  async list(playerId: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT * FROM trivia_answer_history WHERE player_id = ? ORDER BY id',
+      args: [playerId]
+    });
+    return result.rows.map(toAnswerRecord);
+  }
+}
@@ -0,0 +1,94 @@
+import type { Client } from '@libsql/client';
+import type { Question } from '../questions';
+import { ensureMigrated } from './migrations';
+
+export interface DailyAttempt {
+  date: string;
+  playerId: string;
+  gameId: string;
+  startedAt: string;
+}
+
+// Stores the shared question set for each UTC date and each player's single scored attempt
+export interface DailyChallengeRepository {
+  getQuestions(date: string): Promise<Question[] | null>;
+  // Saves the set unless one already exists; always returns the stored set so concurrent callers agree
+  saveQuestions(date: string, questions: Question[]): Promise<Question[]>;
+  getAttempt(date: string, playerId: string): Promise<DailyAttempt | null>;
+  // Returns false if the player already has an attempt for this date
+  claimAttempt(attempt: DailyAttempt): Promise<boolean>;
+}
+
+export class InMemoryDailyChallengeRepository implements DailyChallengeRepository {
+  private readonly challenges = new Map<string, Question[]>();
+  private readonly attempts = new Map<string, DailyAttempt>();
+
+  async getQuestions(date: string) {
+    const questions = this.challenges.get(date);
+    return questions ? structuredClone(questions) : null;
+  }
+
+  async saveQuestions(date: string, questions: Question[]) {
+    if (!this.challenges.has(date)) this.challenges.set(date, structuredClone(questions));
+    return structuredClone(this.challenges.get(date)!);
+  }
+
+  async getAttempt(date: string, playerId: string) {
+    return this.attempts.get(`${date}:${playerId}`) ?? null;
+  }
+
+  async claimAttempt(attempt: DailyAttempt) {
+    const key = `${attempt.date}:${attempt.playerId}`;
+    if (this.attempts.has(key)) return false;
+    this.attempts.set(key, { ...attempt });
+    return true;
+  }
+}
+
+export class LibSQLDailyChallengeRepository implements DailyChallengeRepository {
+  constructor(private readonly client: Client) {}
+
+  async getQuestions(date: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT questions FROM trivia_daily_challenges WHERE challenge_date = ?',
+      args: [date]
+    });
+    const row = result.rows[0];
+    return row ? (JSON.parse(String(row.questions)) as Question[]) : null;
+  }
+
+  async saveQuestions(date: string, questions: Question[]) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_daily_challenges (challenge_date, questions, created_at) VALUES (?, ?, ?)',
+      args: [date, JSON.stringify(questions), new Date().toISOString()]
+    });
+    return (await this.getQuestions(date))!;
+  }
+
+  async getAttempt(date: string, playerId: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT * FROM trivia_daily_attempts WHERE challenge_date = ? AND player_id = ?',
+      args: [date, playerId]
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      date: String(row.challenge_date),
+      playerId: String(row.player_id),
+      gameId: String(row.game_id),
+      startedAt: String(row.started_at)
+    };
+  }
+
+  async claimAttempt(attempt: DailyAttempt) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_daily_attempts (challenge_date, player_id, game_id, started_at) VALUES (?, ?, ?, ?)',
+      args: [attempt.date, attempt.playerId, attempt.gameId, attempt.startedAt]
+    });
+    return result.rowsAffected > 0;
+  }
+}
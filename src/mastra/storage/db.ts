@@ -0,0 +1,6 @@
+import { createClient, type Client } from '@libsql/client';
+
+// Shared LibSQL client: Mastra's storage and the trivia repositories use the same database file
+export const triviaDbUrl = process.env.TRIVIA_DB_URL ?? 'file:../trivia.db';
+
+export const triviaDb: Client = createClient({ url: triviaDbUrl });
@@ -0,0 +1,45 @@
+import type { Client } from '@libsql/client';
+import { ensureMigrated } from './migrations';
+
+// Generated answer explanations, keyed by question fingerprint so each question is explained once
+export interface ExplanationRepository {
+  get(questionKey: string): Promise<string | null>;
+  // Keeps the first explanation saved for a question; returns the stored one
+  save(questionKey: string, explanation: string): Promise<string>;
+}
+
+export class InMemoryExplanationRepository implements ExplanationRepository {
+  private readonly explanations = new Map<string, string>();
+
+  async get(questionKey: string) {
+    return this.explanations.get(questionKey) ?? null;
+  }
+
+  async save(questionKey: string, explanation: string) {
+    if (!this.explanations.has(questionKey)) this.explanations.set(questionKey, explanation);
+    return this.explanations.get(questionKey)!;
+  }
+}
+
+export class LibSQLExplanationRepository implements ExplanationRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(questionKey: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT explanation FROM trivia_explanations WHERE question_key = ?',
+      args: [questionKey]
+    });
+    const row = result.rows[0];
+    return row ? String(row.explanation) : null;
+  }
+
+  async save(questionKey: string, explanation: string) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_explanations (question_key, explanation, created_at) VALUES (?, ?, ?)',
+      args: [questionKey, explanation, new Date().toISOString()]
+    });
+    return (await this.get(questionKey))!;
+  }
+}
@@ -0,0 +1,117 @@
+import type { Client, Row } from '@libsql/client';
+import type { GameMode, GameResult } from '../game/types';
+import { ensureMigrated } from './migrations';
+
+export interface GameResultFilter {
+  // Only results played on or after this UTC date (YYYY-MM-DD)
+  since?: string;
+  // Only games that included at least one question from this category (case-insensitive)
+  category?: string;
+  playerId?: string;
+  mode?: GameMode;
+}
+
+// Append-only store of finished games
+export interface GameResultRepository {
+  record(result: GameResult): Promise<void>;
+  list(filter?: GameResultFilter): Promise<GameResult[]>;
+}
+
+export class InMemoryGameResultRepository implements GameResultRepository {
+  private readonly results: GameResult[] = [];
+
+  async record(result: GameResult) {
+    if (this.results.some(r => r.gameId === result.gameId)) {
+      throw new Error(`Game ${result.gameId} has already been recorded`);
+    }
+    this.results.push(structuredClone(result));
+  }
+
+  async list(filter: GameResultFilter = {}) {
+    const category = filter.category?.toLowerCase();
+    return this.results
+      .filter(r =>
+        (!filter.since || r.playedOn >= filter.since) &&
+        (!filter.playerId || r.playerId === filter.playerId) &&
+        (!filter.mode || r.mode === filter.mode) &&
+        (!category || r.categories.some(c => c.toLowerCase() === category))
+      )
+      .map(r => structuredClone(r));
+  }
+}
+
+function toGameResult(row: Row): GameResult {
+  return {
+    gameId: String(row.game_id),
+    playerId: String(row.player_id),
+    mode: String(row.mode) as GameMode,
+    score: Number(row.score),
+    correctAnswers: Number(row.correct_answers),
+    totalQuestions: Number(row.total_questions),
+    accuracy: Number(row.accuracy),
+    hintsUsed: Number(row.hints_used),
+    skipsUsed: Number(row.skips_used),
+    difficultyMix: JSON.parse(String(row.difficulty_mix)),
+    categories: JSON.parse(String(row.categories)),
+    playedOn: String(row.played_on),
+    completedAt: String(row.completed_at)
+  };
+}
+
+export class LibSQLGameResultRepository implements GameResultRepository {
+  constructor(private readonly client: Client) {}
+
+  async record(result: GameResult) {
+    await ensureMigrated(this.client);
+    // Plain INSERT: a second attempt to record the same game fails on the primary key
+    await this.client.execute({
+      sql: `INSERT INTO trivia_game_results (
+        game_id, player_id, mode, score, correct_answers, total_questions, accuracy,
+        hints_used, skips_used, difficulty_mix, categories, played_on, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        result.gameId,
+        result.playerId,
+        result.mode,
+        result.score,
+        result.correctAnswers,
+        result.totalQuestions,
+        result.accuracy,
+        result.hintsUsed,
+        result.skipsUsed,
+        JSON.stringify(result.difficultyMix),
+        JSON.stringify(result.categories),
+        result.playedOn,
+        result.completedAt
+      ]
+    });
+  }
+
+  async list(filter: GameResultFilter = {}) {
+    await ensureMigrated(this.client);
+    const where: string[] = [];
+    const args: string[] = [];
+    if (filter.since) {
+      where.push('played_on >= ?');
+      args.push(filter.since);
+    }
+    if (filter.playerId) {
+      where.push('player_id = ?');
+      args.push(filter.playerId);
+    }
+    if (filter.mode) {
+      where.push('mode = ?');
+      args.push(filter.mode);
+    }
+    if (filter.category) {
+      where.push('EXISTS (SELECT 1 FROM json_each(categories) WHERE lower(json_each.value) = lower(?))');
+      args.push(filter.category);
+    }
+
+    const result = await this.client.execute({
+      sql: `SELECT * FROM trivia_game_results${where.length ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY completed_at`,
+      args
+    });
+    return result.rows.map(toGameResult);
+  }
+}
@@ -0,0 +1,85 @@
+import { createClient } from '@libsql/client';
+import { describe, expect, it } from 'vitest';
+import type { GameState } from '../game/types';
+import { InMemoryGameStateRepository, LibSQLGameStateRepository, type GameStateRepository } from './game-state-repository';
+import { migrations, runMigrations } from './migrations';
+
+function gameState(playerId: string): GameState {
+  return {
+    gameId: `game-${playerId}`,
+    playerId,
+    mode: 'practice',
+    status: 'active',
+    scoringPreset: 'standard',
+    score: 0,
+    currentQuestionIndex: 0,
+    questions: [],
+    streak: 0,
+    correctAnswers: 0,
+    hintsUsed: 0,
+    skipsUsed: 0,
+    lifelinesUsed: { 'fifty-fifty': 0, 'ask-the-audience': 0, 'extra-time': 0, 'double-or-nothing': 0 },
+    timeLimitSeconds: 30,
+    startedAt: '2026-03-01T12:00:00.000Z',
+    lastPlayed: '2026-03-01',
+    lastActivityAt: '2026-03-01T12:00:00.000Z'
+  };
+}
+
+describe('runMigrations', () => {
+  it('applies every migration once', async () => {
+    const client = createClient({ url: ':memory:' });
+    expect(await runMigrations(client)).toBe(migrations.length);
+    expect(await runMigrations(client)).toBe(0);
+
+    const applied = await client.execute('SELECT version FROM trivia_migrations ORDER BY version');
+    expect(applied.rows.map(row => Number(row.version))).toEqual(migrations.map(m => m.version).sort((a, b) => a - b));
+  });
+
+  it('picks up from the last applied version', async () => {
+    const client = createClient({ url: ':memory:' });
+    await runMigrations(client, migrations.slice(0, 1));
+    expect(await runMigrations(client)).toBe(migrations.length - 1);
+  });
+});
+
+const repositories: Array<[string, () => GameStateRepository]> = [
+  ['in memory', () => new InMemoryGameStateRepository()],
+  ['LibSQL', () => new LibSQLGameStateRepository(createClient({ url: ':memory:' }))]
+];
+
+describe.each(repositories)('game state repository (%s)', (_, createRepository) => {
+  it('round-trips a saved state', async () => {
+    const repository = createRepository();
+    const state = gameState('ada');
+    expect(await repository.save(state)).toBe(true);
+
+    expect(await repository.get('ada')).toEqual({ ...state, version: 1 });
+    expect(await repository.get('grace')).toBeNull();
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it('only saves over the version a state was loaded at', async () => {
+    const repository = createRepository();
+    await repository.save(gameState('ada'));
+    const first = (await repository.get('ada'))!;
+    const second = (await repository.get('ada'))!;
+
+    first.score = 10;
+    expect(await repository.save(first)).toBe(true);
+    second.score = 20;
+    expect(await repository.save(second)).toBe(false);
+    expect((await repository.get('ada'))!.score).toBe(10);
+  });
+
+  it('lets a new game replace the stored one', async () => {
+    const repository = createRepository();
+    await repository.save(gameState('ada'));
+    const next = { ...gameState('ada'), gameId: 'game-2' };
+    expect(await repository.save(next)).toBe(true);
+
+    expect(await repository.get('ada')).toMatchObject({ gameId: 'game-2', version: 2 });
+    await repository.delete('ada');
+    expect(await repository.get('ada')).toBeNull();
+  });
+});
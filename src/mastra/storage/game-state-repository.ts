@@ -0,0 +1,98 @@
+import type { Client, Row } from '@libsql/client';
+import type { GameState } from '../game/types';
+import { ensureMigrated } from './migrations';
+
+// Persistence for per-player game sessions. Moves can arrive at the same time (a chat and a REST client), so
+// saving is compare-and-set: a state loaded with get() only saves over the version it was loaded at.
+export interface GameStateRepository {
+  get(playerId: string): Promise<GameState | null>;
+  // A state without a version (a new game) replaces whatever is stored. Returns false, saving nothing, if another
+  // save landed since the state was loaded; on success the state carries its new version.
+  save(state: GameState): Promise<boolean>;
+  delete(playerId: string): Promise<void>;
+  list(): Promise<GameState[]>;
+}
+
+// In-memory implementation, handy for tests and throwaway sessions
+export class InMemoryGameStateRepository implements GameStateRepository {
+  private readonly states = new Map<string, GameState>();
+
+  async get(playerId: string) {
+    const state = this.states.get(playerId);
+    // Hand out copies so callers can't mutate stored state without saving it
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(state: GameState) {
+    const stored = this.states.get(state.playerId);
+    if (state.version !== undefined && state.version !== stored?.version) return false;
+    state.version = (stored?.version ?? 0) + 1;
+    this.states.set(state.playerId, structuredClone(state));
+    return true;
+  }
+
+  async delete(playerId: string) {
+    this.states.delete(playerId);
+  }
+
+  async list() {
+    return Array.from(this.states.values(), state => structuredClone(state));
+  }
+}
+
+function parseState(row: Row): GameState {
+  return { ...(JSON.parse(String(row.state)) as GameState), version: Number(row.version) };
+}
+
+// LibSQL implementation; each session is stored as a JSON document keyed by player, with its version alongside
+export class LibSQLGameStateRepository implements GameStateRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(playerId: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT state, version FROM trivia_game_states WHERE player_id = ?',
+      args: [playerId]
+    });
+    const row = result.rows[0];
+    return row ? parseState(row) : null;
+  }
+
+  async save(state: GameState) {
+    await ensureMigrated(this.client);
+    const { version, ...document } = state;
+    const updatedAt = new Date().toISOString();
+    const result = await this.client.execute(
+      version === undefined
+        ? {
+            sql: `INSERT INTO trivia_game_states (player_id, state, version, updated_at) VALUES (?, ?, 1, ?)
+              ON CONFLICT(player_id) DO UPDATE SET state = excluded.state, version = version + 1, updated_at = excluded.updated_at
+              RETURNING version`,
+            args: [state.playerId, JSON.stringify(document), updatedAt]
+          }
+        : {
+            sql: `UPDATE trivia_game_states SET state = ?, version = version + 1, updated_at = ?
+              WHERE player_id = ? AND version = ? RETURNING version`,
+            args: [JSON.stringify(document), updatedAt, state.playerId, version]
+          }
+    );
+    const row = result.rows[0];
+    if (!row) return false;
+    state.version = Number(row.version);
+    return true;
+  }
+
+  async delete(playerId: string) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: 'DELETE FROM trivia_game_states WHERE player_id = ?',
+      args: [playerId]
+    });
+  }
+
+  async list() {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute('SELECT state, version FROM trivia_game_states');
+    return result.rows.map(parseState);
+  }
+}
@@ -0,0 +1,158 @@
+import { triviaDb } from './db';
+import {
+  InMemoryGameStateRepository,
+  LibSQLGameStateRepository,
+  type GameStateRepository
+} from './game-state-repository';
+import {
+  InMemoryGameResultRepository,
+  LibSQLGameResultRepository,
+  type GameResultRepository
+} from './game-result-repository';
+import {
+  InMemoryDailyChallengeRepository,
+  LibSQLDailyChallengeRepository,
+  type DailyChallengeRepository
+} from './daily-challenge-repository';
+import { InMemoryRoomRepository, LibSQLRoomRepository, type RoomRepository } from './room-repository';
+import {
+  InMemoryTournamentRepository,
+  LibSQLTournamentRepository,
+  type TournamentRepository
+} from './tournament-repository';
+import {
+  InMemoryPlayerRatingRepository,
+  LibSQLPlayerRatingRepository,
+  type PlayerRatingRepository
+} from './player-rating-repository';
+import {
+  InMemoryAnswerHistoryRepository,
+  LibSQLAnswerHistoryRepository,
+  type AnswerHistoryRepository
+} from './answer-history-repository';
+import {
+  InMemoryExplanationRepository,
+  LibSQLExplanationRepository,
+  type ExplanationRepository
+} from './explanation-repository';
+import {
+  InMemorySeenQuestionRepository,
+  LibSQLSeenQuestionRepository,
+  type SeenQuestionRepository
+} from './seen-question-repository';
+import {
+  InMemoryQuestionPackRepository,
+  LibSQLQuestionPackRepository,
+  type QuestionPackRepository
+} from './question-pack-repository';
+import {
+  InMemoryAchievementRepository,
+  LibSQLAchievementRepository,
+  type AchievementRepository
+} from './achievement-repository';
+
+export { triviaDb, triviaDbUrl } from './db';
+export { migrations, runMigrations, ensureMigrated, type Migration } from './migrations';
+export {
+  InMemoryGameStateRepository,
+  LibSQLGameStateRepository,
+  type GameStateRepository
+} from './game-state-repository';
+export {
+  InMemoryGameResultRepository,
+  LibSQLGameResultRepository,
+  type GameResultRepository,
+  type GameResultFilter
+} from './game-result-repository';
+export {
+  InMemoryDailyChallengeRepository,
+  LibSQLDailyChallengeRepository,
+  type DailyChallengeRepository,
+  type DailyAttempt
+} from './daily-challenge-repository';
+export { InMemoryRoomRepository, LibSQLRoomRepository, type RoomRepository } from './room-repository';
+export {
+  InMemoryTournamentRepository,
+  LibSQLTournamentRepository,
+  type TournamentRepository
+} from './tournament-repository';
+export {
+  InMemoryPlayerRatingRepository,
+  LibSQLPlayerRatingRepository,
+  type PlayerRatingRepository,
+  type PlayerRating
+} from './player-rating-repository';
+export {
+  InMemoryAnswerHistoryRepository,
+  LibSQLAnswerHistoryRepository,
+  type AnswerHistoryRepository
+} from './answer-history-repository';
+export {
+  InMemoryExplanationRepository,
+  LibSQLExplanationRepository,
+  type ExplanationRepository
+} from './explanation-repository';
+export {
+  InMemorySeenQuestionRepository,
+  LibSQLSeenQuestionRepository,
+  type SeenQuestionRepository
+} from './seen-question-repository';
+export {
+  InMemoryQuestionPackRepository,
+  LibSQLQuestionPackRepository,
+  type QuestionPackRepository
+} from './question-pack-repository';
+export {
+  InMemoryAchievementRepository,
+  LibSQLAchievementRepository,
+  type AchievementRepository,
+  type UnlockedAchievement
+} from './achievement-repository';
+
+// Set TRIVIA_STORAGE=memory to keep sessions in process (tests, throwaway runs)
+const inMemory = process.env.TRIVIA_STORAGE === 'memory';
+
+// Shared repositories used by the game tools
+export const gameStateRepository: GameStateRepository = inMemory
+  ? new InMemoryGameStateRepository()
+  : new LibSQLGameStateRepository(triviaDb);
+
+export const gameResultRepository: GameResultRepository = inMemory
+  ? new InMemoryGameResultRepository()
+  : new LibSQLGameResultRepository(triviaDb);
+
+export const dailyChallengeRepository: DailyChallengeRepository = inMemory
+  ? new InMemoryDailyChallengeRepository()
+  : new LibSQLDailyChallengeRepository(triviaDb);
+
+export const roomRepository: RoomRepository = inMemory
+  ? new InMemoryRoomRepository()
+  : new LibSQLRoomRepository(triviaDb);
+
+export const tournamentRepository: TournamentRepository = inMemory
+  ? new InMemoryTournamentRepository()
+  : new LibSQLTournamentRepository(triviaDb);
+
+export const playerRatingRepository: PlayerRatingRepository = inMemory
+  ? new InMemoryPlayerRatingRepository()
+  : new LibSQLPlayerRatingRepository(triviaDb);
+
+export const answerHistoryRepository: AnswerHistoryRepository = inMemory
+  ? new InMemoryAnswerHistoryRepository()
+  : new LibSQLAnswerHistoryRepository(triviaDb);
+
+export const explanationRepository: ExplanationRepository = inMemory
+  ? new InMemoryExplanationRepository()
+  : new LibSQLExplanationRepository(triviaDb);
+
+export const seenQuestionRepository: SeenQuestionRepository = inMemory
+  ? new InMemorySeenQuestionRepository()
+  : new LibSQLSeenQuestionRepository(triviaDb);
+
+export const questionPackRepository: QuestionPackRepository = inMemory
+  ? new InMemoryQuestionPackRepository()
+  : new LibSQLQuestionPackRepository(triviaDb);
+
+export const achievementRepository: AchievementRepository = inMemory
+  ? new InMemoryAchievementRepository()
+  : new LibSQLAchievementRepository(triviaDb);
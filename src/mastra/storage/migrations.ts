@@ -0,0 +1,220 @@
+import type { Client } from '@libsql/client';
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+// Schema migrations for the trivia tables, applied in order. Never edit a released migration; add a new one.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_game_states',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_game_states (
+        player_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 2,
+    name: 'create_game_results',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_game_results (
+        game_id TEXT PRIMARY KEY,
+        player_id TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        correct_answers INTEGER NOT NULL,
+        total_questions INTEGER NOT NULL,
+        accuracy INTEGER NOT NULL,
+        hints_used INTEGER NOT NULL,
+        skips_used INTEGER NOT NULL,
+        difficulty_mix TEXT NOT NULL,
+        categories TEXT NOT NULL,
+        played_on TEXT NOT NULL,
+        completed_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_trivia_game_results_played_on ON trivia_game_results (played_on)',
+      'CREATE INDEX IF NOT EXISTS idx_trivia_game_results_player ON trivia_game_results (player_id)'
+    ]
+  },
+  {
+    version: 3,
+    name: 'daily_challenges',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_daily_challenges (
+        challenge_date TEXT PRIMARY KEY,
+        questions TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS trivia_daily_attempts (
+        challenge_date TEXT NOT NULL,
+        player_id TEXT NOT NULL,
+        game_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        PRIMARY KEY (challenge_date, player_id)
+      )`,
+      "ALTER TABLE trivia_game_results ADD COLUMN mode TEXT NOT NULL DEFAULT 'practice'"
+    ]
+  },
+  {
+    version: 4,
+    name: 'create_rooms',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_rooms (
+        code TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 5,
+    name: 'create_player_ratings',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_player_ratings (
+        player_id TEXT PRIMARY KEY,
+        rating INTEGER NOT NULL,
+        questions_rated INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 6,
+    name: 'create_answer_history',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_answer_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        game_id TEXT NOT NULL,
+        player_id TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        question_id TEXT NOT NULL,
+        category TEXT NOT NULL,
+        difficulty TEXT NOT NULL,
+        question_type TEXT NOT NULL,
+        correct INTEGER NOT NULL,
+        skipped INTEGER NOT NULL,
+        timed_out INTEGER NOT NULL,
+        hints_used INTEGER NOT NULL,
+        answered_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_trivia_answer_history_player ON trivia_answer_history (player_id)'
+    ]
+  },
+  {
+    version: 7,
+    name: 'create_explanations',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_explanations (
+        question_key TEXT PRIMARY KEY,
+        explanation TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 8,
+    name: 'create_seen_questions',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_seen_questions (
+        player_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        seen_at TEXT NOT NULL,
+        PRIMARY KEY (player_id, fingerprint)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_trivia_seen_questions_recent ON trivia_seen_questions (player_id, seen_at)'
+    ]
+  },
+  {
+    version: 9,
+    name: 'add_game_state_versions',
+    statements: ['ALTER TABLE trivia_game_states ADD COLUMN version INTEGER NOT NULL DEFAULT 0']
+  },
+  {
+    version: 10,
+    name: 'create_tournaments',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_tournaments (
+        code TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 11,
+    name: 'create_question_packs',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_question_packs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        pack TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 12,
+    name: 'create_achievements',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS trivia_achievements (
+        player_id TEXT NOT NULL,
+        achievement_id TEXT NOT NULL,
+        detail TEXT NOT NULL DEFAULT '',
+        game_id TEXT NOT NULL,
+        unlocked_at TEXT NOT NULL,
+        PRIMARY KEY (player_id, achievement_id, detail)
+      )`
+    ]
+  }
+];
+
+// Apply any migrations that have not been recorded in trivia_migrations yet
+export async function runMigrations(client: Client, list: Migration[] = migrations): Promise<number> {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS trivia_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  );
+
+  const applied = await client.execute('SELECT version FROM trivia_migrations');
+  const appliedVersions = new Set(applied.rows.map(row => Number(row.version)));
+  const pending = [...list].sort((a, b) => a.version - b.version).filter(m => !appliedVersions.has(m.version));
+
+  for (const migration of pending) {
+    await client.batch(
+      [
+        ...migration.statements,
+        {
+          sql: 'INSERT INTO trivia_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          args: [migration.version, migration.name, new Date().toISOString()]
+        }
+      ],
+      'write'
+    );
+  }
+
+  return pending.length;
+}
+
+const migrated = new WeakMap<Client, Promise<number>>();
+
+// Run migrations once per client; repositories await this before their first query
+export function ensureMigrated(client: Client): Promise<number> {
+  let pending = migrated.get(client);
+  if (!pending) {
+    pending = runMigrations(client);
+    // Allow a retry on the next call if the database was unavailable
+    pending.catch(() => migrated.delete(client));
+    migrated.set(client, pending);
+  }
+  return pending;
+}
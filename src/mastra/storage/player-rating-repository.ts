@@ -0,0 +1,59 @@
+import type { Client } from '@libsql/client';
+import { ensureMigrated } from './migrations';
+
+export interface PlayerRating {
+  playerId: string;
+  rating: number;
+  // Number of answers that have moved the rating so far
+  questionsRated: number;
+  updatedAt: string;
+}
+
+// Persists each player's skill rating across games
+export interface PlayerRatingRepository {
+  get(playerId: string): Promise<PlayerRating | null>;
+  save(rating: PlayerRating): Promise<void>;
+}
+
+export class InMemoryPlayerRatingRepository implements PlayerRatingRepository {
+  private readonly ratings = new Map<string, PlayerRating>();
+
+  async get(playerId: string) {
+    const rating = this.ratings.get(playerId);
+    return rating ? { ...rating } : null;
+  }
+
+  async save(rating: PlayerRating) {
+    this.ratings.set(rating.playerId, { ...rating });
+  }
+}
+
+export class LibSQLPlayerRatingRepository implements PlayerRatingRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(playerId: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT * FROM trivia_player_ratings WHERE player_id = ?',
+      args: [playerId]
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      playerId: String(row.player_id),
+      rating: Number(row.rating),
+      questionsRated: Number(row.questions_rated),
+      updatedAt: String(row.updated_at)
+    };
+  }
+
+  async save(rating: PlayerRating) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: `INSERT INTO trivia_player_ratings (player_id, rating, questions_rated, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(player_id) DO UPDATE SET
+          rating = excluded.rating, questions_rated = excluded.questions_rated, updated_at = excluded.updated_at`,
+      args: [rating.playerId, rating.rating, rating.questionsRated, rating.updatedAt]
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import type { Client } from '@libsql/client';
+import type { QuestionPack } from '../questions';
+import { ensureMigrated } from './migrations';
+
+// Imported question packs, keyed by pack id
+export interface QuestionPackRepository {
+  get(id: string): Promise<QuestionPack | null>;
+  // Adds the pack, or replaces the one with the same id
+  save(pack: QuestionPack): Promise<void>;
+  // All packs, by name
+  list(): Promise<QuestionPack[]>;
+}
+
+export class InMemoryQuestionPackRepository implements QuestionPackRepository {
+  private readonly packs = new Map<string, QuestionPack>();
+
+  async get(id: string) {
+    const pack = this.packs.get(id);
+    return pack ? structuredClone(pack) : null;
+  }
+
+  async save(pack: QuestionPack) {
+    this.packs.set(pack.id, structuredClone(pack));
+  }
+
+  async list() {
+    return Array.from(this.packs.values(), pack => structuredClone(pack)).sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export class LibSQLQuestionPackRepository implements QuestionPackRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(id: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT pack FROM trivia_question_packs WHERE id = ?',
+      args: [id]
+    });
+    const row = result.rows[0];
+    return row ? (JSON.parse(String(row.pack)) as QuestionPack) : null;
+  }
+
+  async save(pack: QuestionPack) {
+    await ensureMigrated(this.client);
+    await this.client.execute({
+      sql: `INSERT INTO trivia_question_packs (id, name, pack, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, pack = excluded.pack, updated_at = excluded.updated_at`,
+      args: [pack.id, pack.name, JSON.stringify(pack), pack.updatedAt]
+    });
+  }
+
+  async list() {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute('SELECT pack FROM trivia_question_packs ORDER BY name');
+    return result.rows.map(row => JSON.parse(String(row.pack)) as QuestionPack);
+  }
+}
@@ -0,0 +1,84 @@
+import type { Client } from '@libsql/client';
+import { RoomError } from '../game/rooms';
+import type { Room } from '../game/types';
+import { ensureMigrated } from './migrations';
+
+// Persistence for multiplayer rooms. Several players write to the same room, so changes go through
+// update(), which re-reads and retries instead of overwriting a concurrent answer.
+export interface RoomRepository {
+  get(code: string): Promise<Room | null>;
+  // Returns false if the code is already taken
+  create(room: Room): Promise<boolean>;
+  update<T>(code: string, mutate: (room: Room) => T): Promise<{ room: Room; result: T } | null>;
+}
+
+export class InMemoryRoomRepository implements RoomRepository {
+  private readonly rooms = new Map<string, Room>();
+
+  async get(code: string) {
+    const room = this.rooms.get(code);
+    return room ? structuredClone(room) : null;
+  }
+
+  async create(room: Room) {
+    if (this.rooms.has(room.code)) return false;
+    this.rooms.set(room.code, structuredClone(room));
+    return true;
+  }
+
+  async update<T>(code: string, mutate: (room: Room) => T) {
+    const stored = this.rooms.get(code);
+    if (!stored) return null;
+    // Mutate a copy so a throwing mutation leaves the stored room untouched
+    const room = structuredClone(stored);
+    const result = mutate(room);
+    this.rooms.set(code, room);
+    return { room: structuredClone(room), result };
+  }
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export class LibSQLRoomRepository implements RoomRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(code: string) {
+    const row = await this.load(code);
+    return row ? row.room : null;
+  }
+
+  async create(room: Room) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_rooms (code, state, version, updated_at) VALUES (?, ?, 1, ?)',
+      args: [room.code, JSON.stringify(room), new Date().toISOString()]
+    });
+    return result.rowsAffected > 0;
+  }
+
+  async update<T>(code: string, mutate: (room: Room) => T) {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const row = await this.load(code);
+      if (!row) return null;
+
+      const result = mutate(row.room);
+      // Optimistic concurrency: only write if nobody else has saved since we read
+      const saved = await this.client.execute({
+        sql: 'UPDATE trivia_rooms SET state = ?, version = version + 1, updated_at = ? WHERE code = ? AND version = ?',
+        args: [JSON.stringify(row.room), new Date().toISOString(), code, row.version]
+      });
+      if (saved.rowsAffected > 0) return { room: row.room, result };
+    }
+    throw new RoomError(`Room ${code} is busy right now. Please try again.`, 'ROOM_BUSY');
+  }
+
+  private async load(code: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT state, version FROM trivia_rooms WHERE code = ?',
+      args: [code]
+    });
+    const row = result.rows[0];
+    return row ? { room: JSON.parse(String(row.state)) as Room, version: Number(row.version) } : null;
+  }
+}
@@ -0,0 +1,54 @@
+import type { Client } from '@libsql/client';
+import { ensureMigrated } from './migrations';
+
+// Fingerprints of the questions each player has already played, so new games can avoid repeats
+export interface SeenQuestionRepository {
+  // The player's most recently seen fingerprints, newest first
+  listRecent(playerId: string, limit: number): Promise<string[]>;
+  // Records (or refreshes) the fingerprints as seen at the given time
+  markSeen(playerId: string, fingerprints: string[], seenAt: string): Promise<void>;
+}
+
+export class InMemorySeenQuestionRepository implements SeenQuestionRepository {
+  private readonly seen = new Map<string, Map<string, string>>();
+
+  async listRecent(playerId: string, limit: number) {
+    const entries = Array.from(this.seen.get(playerId) ?? new Map<string, string>());
+    return entries
+      .sort((a, b) => b[1].localeCompare(a[1]))
+      .slice(0, limit)
+      .map(([fingerprint]) => fingerprint);
+  }
+
+  async markSeen(playerId: string, fingerprints: string[], seenAt: string) {
+    const seen = this.seen.get(playerId) ?? new Map<string, string>();
+    for (const fingerprint of fingerprints) seen.set(fingerprint, seenAt);
+    this.seen.set(playerId, seen);
+  }
+}
+
+export class LibSQLSeenQuestionRepository implements SeenQuestionRepository {
+  constructor(private readonly client: Client) {}
+
+  async listRecent(playerId: string, limit: number) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT fingerprint FROM trivia_seen_questions WHERE player_id = ? ORDER BY seen_at DESC LIMIT ?',
+      args: [playerId, limit]
+    });
+    return result.rows.map(row => String(row.fingerprint));
+  }
+
+  async markSeen(playerId: string, fingerprints: string[], seenAt: string) {
+    if (fingerprints.length === 0) return;
+    await ensureMigrated(this.client);
+    await this.client.batch(
+      fingerprints.map(fingerprint => ({
+        sql: `INSERT INTO trivia_seen_questions (player_id, fingerprint, seen_at) VALUES (?, ?, ?)
+          ON CONFLICT(player_id, fingerprint) DO UPDATE SET seen_at = excluded.seen_at`,
+        args: [playerId, fingerprint, seenAt]
+      })),
+      'write'
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import type { Client } from '@libsql/client';
+import { TournamentError } from '../game/tournaments';
+import type { Tournament } from '../game/types';
+import { ensureMigrated } from './migrations';
+
+// Persistence for tournaments. Players register and finish matches concurrently, so changes go through
+// update(), which re-reads and retries like the room repository.
+export interface TournamentRepository {
+  get(code: string): Promise<Tournament | null>;
+  // Returns false if the code is already taken
+  create(tournament: Tournament): Promise<boolean>;
+  update<T>(code: string, mutate: (tournament: Tournament) => T): Promise<{ tournament: Tournament; result: T } | null>;
+}
+
+export class InMemoryTournamentRepository implements TournamentRepository {
+  private readonly tournaments = new Map<string, Tournament>();
+
+  async get(code: string) {
+    const tournament = this.tournaments.get(code);
+    return tournament ? structuredClone(tournament) : null;
+  }
+
+  async create(tournament: Tournament) {
+    if (this.tournaments.has(tournament.code)) return false;
+    this.tournaments.set(tournament.code, structuredClone(tournament));
+    return true;
+  }
+
+  async update<T>(code: string, mutate: (tournament: Tournament) => T) {
+    const stored = this.tournaments.get(code);
+    if (!stored) return null;
+    // Mutate a copy so a throwing mutation leaves the stored tournament untouched
+    const tournament = structuredClone(stored);
+    const result = mutate(tournament);
+    this.tournaments.set(code, tournament);
+    return { tournament: structuredClone(tournament), result };
+  }
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export class LibSQLTournamentRepository implements TournamentRepository {
+  constructor(private readonly client: Client) {}
+
+  async get(code: string) {
+    const row = await this.load(code);
+    return row ? row.tournament : null;
+  }
+
+  async create(tournament: Tournament) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'INSERT OR IGNORE INTO trivia_tournaments (code, state, version, updated_at) VALUES (?, ?, 1, ?)',
+      args: [tournament.code, JSON.stringify(tournament), new Date().toISOString()]
+    });
+    return result.rowsAffected > 0;
+  }
+
+  async update<T>(code: string, mutate: (tournament: Tournament) => T) {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const row = await this.load(code);
+      if (!row) return null;
+
+      const result = mutate(row.tournament);
+      // Optimistic concurrency: only write if nobody else has saved since we read
+      const saved = await this.client.execute({
+        sql: 'UPDATE trivia_tournaments SET state = ?, version = version + 1, updated_at = ? WHERE code = ? AND version = ?',
+        args: [JSON.stringify(row.tournament), new Date().toISOString(), code, row.version]
+      });
+      if (saved.rowsAffected > 0) return { tournament: row.tournament, result };
+    }
+    throw new TournamentError(`Tournament ${code} is busy right now. Please try again.`, 'TOURNAMENT_BUSY');
+  }
+
+  private async load(code: string) {
+    await ensureMigrated(this.client);
+    const result = await this.client.execute({
+      sql: 'SELECT state, version FROM trivia_tournaments WHERE code = ?',
+      args: [code]
+    });
+    const row = result.rows[0];
+    return row ? { tournament: JSON.parse(String(row.state)) as Tournament, version: Number(row.version) } : null;
+  }
+}
@@ -1,445 +1,313 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-
-// Types for OpenTDB fetch
-type FetchQuestion = {
-  category: string;
-  type: string;
-  difficulty: string;
-  question: string;
-  correct_answer: string;
-  incorrect_answers: string[];
-};
-
-type OpenTDBResponse = {
-  response_code: number;
-  results: FetchQuestion[];
-};
-
-// Utility function to decode HTML entities
-function decodeHtml(str: string): string {
-  if (!str) return str;
-  return str
-    .replace(/&quot;/g, '"')
-    .replace(/&#039;/g, "'")
-    .replace(/&amp;/g, '&')
-    .replace(/&rsquo;/g, "'")
-    .replace(/&ldquo;/g, '"')
-    .replace(/&rdquo;/g, '"')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&hellip;/g, '...')
-    .replace(/&eacute;/g, 'é');
-}
-
-// Utility function to shuffle arrays
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
-// Game state interface
-interface GameState {
-  playerId: string;
-  score: number;
-  currentQuestionIndex: number;
-  questions: Question[];
-  streak: number;
-  hintsUsed: number;
-  skipsUsed: number;
-  lastPlayed: string;
-}
-
-interface Question {
-  id: string;
-  category: string;
-  difficulty: string;
-  question: string;
-  options: string[];
-  correct: string;
-  answered: boolean;
-  userAnswer?: string;
-}
-
-// In-memory storage (in production, use Mastra's memory system)
-const gameStates = new Map<string, GameState>();
+import { achievementIds, listAchievements, playStreak } from '../game/achievements';
+import { DAILY_CHALLENGE_SIZE } from '../game/daily-challenge';
+import { leaderboardScopes, rankResults, scopeStartDate, toUtcDate, type LeaderboardScope } from '../game/leaderboard';
+import { categoryCatalog } from '../game/categories';
+import { getClock } from '../game/clock';
+import { gameResultSchema, withGameErrors } from '../game/errors';
+import { buildPlayerProfile } from '../game/profile';
+import { getRating } from '../game/rating';
+import { scoringPresetNames } from '../game/scoring';
+import {
+  answerQuestion,
+  forfeitGame,
+  getCurrentQuestion,
+  getGameStats,
+  pauseGame,
+  resumeGame,
+  reviewGame,
+  skipQuestion,
+  startGame,
+  useLifeline,
+  type StartGameOptions
+} from '../game/session';
+import { gameModes, gameStatuses, lifelineNames, startableGameModes, type GameMode, type LifelineName } from '../game/types';
+import { difficulties, questionTypes } from '../questions';
+import { achievementRepository, answerHistoryRepository, gameResultRepository, playerRatingRepository } from '../storage';
+import { findCallerPlayerId, playerIdInputSchema, withPlayer, type ToolCall } from './player-identity';
+import { questionPayloadSchema, questionsCountSchema } from './question-payload';
+
+export const listCategoriesTool = createTool({
+  id: 'list-trivia-categories',
+  description: 'List the trivia categories players can pick when starting a practice game',
+  inputSchema: z.object({}),
+  outputSchema: gameResultSchema({
+    categories: z.array(z.object({
+      id: z.number().optional().describe('OpenTDB category id'),
+      name: z.string()
+    }))
+  }),
+  execute: async () => withGameErrors(async () => ({
+    success: true as const,
+    categories: await categoryCatalog.list(getClock().now())
+  }))
+});
 
 export const startGameTool = createTool({
   id: 'start-trivia-game',
-  description: 'Start a new trivia game session with daily questions',
+  description:
+    'Start a new trivia game. "daily" is the daily challenge: the same questions for every player on a UTC date, ' +
+    'one scored attempt per day. "practice" draws fresh random questions and can be replayed any time.',
   inputSchema: z.object({
-    playerId: z.string().describe('Unique player identifier'),
-    questionsCount: z.number().default(10).describe('Number of questions')
+    playerId: playerIdInputSchema,
+    mode: z.enum(startableGameModes).default('practice').describe('Game mode: daily challenge or unlimited practice'),
+    scoring: z.enum(scoringPresetNames).optional().describe('Scoring preset (practice only; the daily challenge uses the default)'),
+    questionType: z.enum([...questionTypes, 'mixed']).default('multiple')
+      .describe('Question type for practice games: multiple choice, boolean (true/false), text (free answer) or mixed'),
+    questionsCount: questionsCountSchema.optional().describe(`Number of questions (practice only; the daily challenge always has ${DAILY_CHALLENGE_SIZE})`),
+    timeLimitSeconds: z.number().int().min(0).optional().describe('Seconds per question, 0 for untimed (practice only; defaults to the preset)'),
+    category: z.string().optional()
+      .describe('Practice only: category name (e.g. "Geography", "Film") or OpenTDB id, see list-trivia-categories'),
+    difficulty: z.enum(difficulties).optional().describe('Practice only: question difficulty (ignored by adaptive games)'),
+    adaptive: z.boolean().default(false)
+      .describe("Practice only: pick each question's difficulty from the player's rating and recent answers"),
+    pack: z.string().optional()
+      .describe('Practice only: name or id of an imported question pack to play instead of the regular questions, see list-trivia-question-packs')
   }),
-  outputSchema: z.object({
-    success: z.boolean(),
+  outputSchema: gameResultSchema({
     message: z.string(),
-    currentQuestion: z.object({
-      index: z.number(),
-      question: z.string(),
-      options: z.array(z.string()),
-      category: z.string(),
-      difficulty: z.string()
-    }).optional(),
+    mode: z.enum(gameModes),
+    adaptive: z.boolean(),
+    category: z.string().optional(),
+    difficulty: z.enum(difficulties).optional(),
+    pack: z.string().optional().describe('Name of the question pack being played'),
+    currentQuestion: questionPayloadSchema,
     totalQuestions: z.number()
+  }, {
+    suggestions: z.array(z.string()).optional().describe('Close category names when the requested one does not exist')
   }),
-  execute: async ({ context }: { context: { playerId: string; questionsCount?: number } }) => {
-    const { playerId, questionsCount = 10 } = context;
-    const today = new Date().toISOString().split('T')[0];
-
-    try {
-      // Fetch questions from OpenTDB
-      const response = await fetch(
-        `https://opentdb.com/api.php?amount=${questionsCount}&type=multiple`
-      );
-  const _data: any = await response.json();
-  const data: OpenTDBResponse = _data as OpenTDBResponse;
-
-      if (!data.results || data.results.length === 0) {
-        throw new Error('Failed to fetch questions');
-      }
-
-      const questions: Question[] = data.results.map((q: FetchQuestion, index: number) => ({
-        id: `q-${index + 1}`,
-        category: decodeHtml(q.category),
-        difficulty: q.difficulty,
-        question: decodeHtml(q.question),
-        options: shuffleArray([...q.incorrect_answers.map(decodeHtml), decodeHtml(q.correct_answer)]),
-        correct: decodeHtml(q.correct_answer),
-        answered: false
-      }));
-
-      // Initialize or reset game state
-      const gameState: GameState = {
-        playerId,
-        score: 0,
-        currentQuestionIndex: 0,
-        questions,
-        streak: 0,
-        hintsUsed: 0,
-        skipsUsed: 0,
-        lastPlayed: today
-      };
-
-      gameStates.set(playerId, gameState);
-
-      const currentQuestion = questions[0];
+  execute: async ({ context, ...caller }: ToolCall<Omit<StartGameOptions, 'playerId'> & { playerId?: string }>) =>
+    withPlayer(caller, context.playerId, playerId => startGame({ ...context, playerId }))
+});
 
-      return {
-        success: true,
-        message: `🎯 Welcome to Daily Trivia! You have ${questionsCount} questions to answer. Good luck!`,
-        currentQuestion: {
-          index: 1,
-          question: currentQuestion.question,
-          options: currentQuestion.options,
-          category: currentQuestion.category,
-          difficulty: currentQuestion.difficulty
-        },
-        totalQuestions: questions.length
-      };
+const achievementSchema = z.object({
+  id: z.enum(achievementIds),
+  name: z.string(),
+  emoji: z.string(),
+  description: z.string()
+});
 
-    } catch (error) {
-      return {
-        success: false,
-        message: 'Failed to start game. Please try again later.',
-        totalQuestions: 0
-      };
-    }
-  }
+const badgeSchema = achievementSchema.extend({
+  detail: z.string().optional().describe('What earned it, e.g. the category'),
+  unlockedAt: z.string()
 });
 
 export const answerQuestionTool = createTool({
   id: 'answer-trivia-question',
   description: 'Submit an answer to the current trivia question',
   inputSchema: z.object({
-    playerId: z.string().describe('Unique player identifier'),
-    answer: z.string().describe('Answer choice (A, B, C, D) or exact text')
+    playerId: playerIdInputSchema,
+    answer: z.string().describe('Answer choice (A, B, C, D), True/False (or yes/no) for boolean questions, or free text'),
+    questionToken: z.string().describe('The questionToken of the question being answered, passed back unchanged')
   }),
-  outputSchema: z.object({
+  outputSchema: gameResultSchema({
     correct: z.boolean(),
+    timedOut: z.boolean(),
+    responseSeconds: z.number(),
+    speedBonus: z.number(),
+    pointsEarned: z.number().describe('Points this answer gained, bonuses included'),
     score: z.number(),
     message: z.string(),
     correctAnswer: z.string(),
+    explanation: z.string().optional().describe('Why the correct answer is right'),
     streak: z.number(),
-    nextQuestion: z.object({
-      index: z.number(),
-      question: z.string(),
-      options: z.array(z.string()),
-      category: z.string(),
-      difficulty: z.string()
-    }).optional(),
-    gameCompleted: z.boolean()
+    rating: z.number().describe("Player's skill rating after this answer"),
+    ratingChange: z.number(),
+    nextQuestion: questionPayloadSchema.optional(),
+    gameCompleted: z.boolean(),
+    achievements: z.array(badgeSchema).describe('Badges this answer unlocked')
   }),
-  execute: async ({ context }: { context: { playerId: string; answer: string } }) => {
-    const { playerId, answer } = context;
-    const gameState = gameStates.get(playerId);
-
-    if (!gameState) {
-      throw new Error('No active game found. Please start a new game.');
-    }
-
-    const currentQuestion = gameState.questions[gameState.currentQuestionIndex];
-    
-    if (!currentQuestion) {
-      throw new Error('No current question found.');
-    }
-
-    // Normalize answer comparison
-    const normalizedUserAnswer = answer.trim().toUpperCase();
-    const normalizedCorrectAnswer = currentQuestion.correct.toUpperCase();
-    
-    // Check if answer is by letter (A, B, C, D) or by text
-    let isCorrect = false;
-    if (/^[A-D]$/.test(normalizedUserAnswer)) {
-      const optionIndex = normalizedUserAnswer.charCodeAt(0) - 65; // A=0, B=1, etc.
-      const option = currentQuestion.options[optionIndex];
-      isCorrect = option === currentQuestion.correct;
-    } else {
-      isCorrect = normalizedUserAnswer === normalizedCorrectAnswer;
-    }
-
-    // Update game state
-    currentQuestion.answered = true;
-    currentQuestion.userAnswer = answer;
-
-    let scoreGained = 0;
-    let message = '';
-
-    if (isCorrect) {
-      gameState.streak += 1;
-      
-      // Base points with difficulty multiplier
-      const basePoints = 10;
-      const difficultyMultiplier = {
-        easy: 1,
-        medium: 1.5,
-        hard: 2
-      }[currentQuestion.difficulty] || 1;
-
-      // Streak bonus every 3 correct answers
-      const streakBonus = gameState.streak >= 3 ? Math.floor(gameState.streak / 3) * 2 : 0;
-      
-      scoreGained = Math.round(basePoints * difficultyMultiplier) + streakBonus;
-      gameState.score += scoreGained;
-
-      message = `✅ Correct! +${scoreGained} points. `;
-      if (streakBonus > 0) {
-        message += `🔥 Streak bonus: +${streakBonus}! `;
-      }
-      message += `Current streak: ${gameState.streak}.`;
-    } else {
-      gameState.streak = 0;
-      message = `❌ Incorrect. The correct answer was: ${currentQuestion.correct}`;
-    }
-
-    // Move to next question
-    gameState.currentQuestionIndex += 1;
-    const gameCompleted = gameState.currentQuestionIndex >= gameState.questions.length;
-
-    let nextQuestion = undefined;
-    if (!gameCompleted) {
-      const nextQ = gameState.questions[gameState.currentQuestionIndex];
-      nextQuestion = {
-        index: gameState.currentQuestionIndex + 1,
-        question: nextQ.question,
-        options: nextQ.options,
-        category: nextQ.category,
-        difficulty: nextQ.difficulty
-      };
-    } else {
-      message += `\n\n🎉 Game Completed! Final Score: ${gameState.score}/${gameState.questions.length * 10}`;
-    }
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; answer: string; questionToken: string }>) =>
+    withPlayer(caller, context.playerId, playerId => answerQuestion(playerId, context.answer, context.questionToken))
+});
 
-    gameStates.set(playerId, gameState);
+export const getCurrentQuestionTool = createTool({
+  id: 'get-current-trivia-question',
+  description: 'Show the question the player still has to answer in their current game, with the time left',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    gameId: z.string(),
+    mode: z.enum(gameModes),
+    score: z.number(),
+    currentQuestion: questionPayloadSchema,
+    totalQuestions: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, getCurrentQuestion)
+});
 
-    return {
-      correct: isCorrect,
-      score: gameState.score,
-      message,
-      correctAnswer: currentQuestion.correct,
-      streak: gameState.streak,
-      nextQuestion,
-      gameCompleted
-    };
-  }
+const lifelineResultSchema = gameResultSchema({
+  lifeline: z.enum(lifelineNames),
+  message: z.string(),
+  remainingOptions: z.array(z.string()).optional().describe('fifty-fifty: the two options left (empty for free-text questions)'),
+  clue: z.string().optional().describe('fifty-fifty on free-text questions: letter pattern, e.g. "T _ _ _ _"'),
+  audienceVotes: z.array(z.object({ option: z.string(), percent: z.number() })).optional()
+    .describe('ask-the-audience: share of the audience voting for each option'),
+  remainingSeconds: z.number().optional().describe('extra-time: seconds now left on the question'),
+  doubleOrNothing: z.boolean().optional().describe('double-or-nothing: the current question scores double'),
+  used: z.number().describe('Uses of this lifeline this game'),
+  remaining: z.number(),
+  scorePenalty: z.number()
 });
 
 export const getHintTool = createTool({
   id: 'get-trivia-hint',
-  description: 'Get a 50/50 hint for the current question (eliminates two wrong answers)',
+  description:
+    'Get a hint for the current question (the 50/50 lifeline): eliminates two wrong answers for multiple choice, ' +
+    'a letter clue for free-text questions. Not available for true/false questions.',
   inputSchema: z.object({
-    playerId: z.string().describe('Unique player identifier')
+    playerId: playerIdInputSchema,
+    questionToken: z.string().describe('The questionToken of the question the hint is for, passed back unchanged')
   }),
-  outputSchema: z.object({
-    success: z.boolean(),
-    message: z.string(),
-    remainingOptions: z.array(z.string()),
-    hintsUsed: z.number(),
-    scorePenalty: z.number()
-  }),
-  execute: async ({ context }: { context: { playerId: string } }) => {
-    const { playerId } = context;
-    const gameState = gameStates.get(playerId);
-
-    if (!gameState) {
-      throw new Error('No active game found.');
-    }
-
-    const currentQuestion = gameState.questions[gameState.currentQuestionIndex];
-    
-    if (!currentQuestion) {
-      throw new Error('No current question found.');
-    }
-
-    if (gameState.hintsUsed >= 3) {
-      return {
-        success: false,
-        message: 'You have used all available hints for this game.',
-        remainingOptions: currentQuestion.options,
-        hintsUsed: gameState.hintsUsed,
-        scorePenalty: 0
-      };
-    }
-
-    // 50/50 hint: keep correct answer and one wrong answer
-  const wrongAnswers = currentQuestion.options.filter(opt => opt !== currentQuestion.correct);
-  const randomWrongAnswer = wrongAnswers.length > 0 ? wrongAnswers[Math.floor(Math.random() * wrongAnswers.length)] : currentQuestion.correct;
-  const remainingOptions = shuffleArray([currentQuestion.correct, randomWrongAnswer]);
-
-    // Apply penalty
-    const penalty = 2;
-    gameState.score = Math.max(0, gameState.score - penalty);
-    gameState.hintsUsed += 1;
-
-    gameStates.set(playerId, gameState);
+  outputSchema: lifelineResultSchema,
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; questionToken: string }>) =>
+    withPlayer(caller, context.playerId, playerId => useLifeline(playerId, 'fifty-fifty', context.questionToken))
+});
 
-    return {
-      success: true,
-      message: `💡 Hint used! Two options eliminated. (-${penalty} points)`,
-      remainingOptions,
-      hintsUsed: gameState.hintsUsed,
-      scorePenalty: penalty
-    };
-  }
+export const useLifelineTool = createTool({
+  id: 'use-trivia-lifeline',
+  description:
+    'Use a lifeline on the current question. fifty-fifty: remove two wrong options (letter clue for free text); ' +
+    'ask-the-audience: simulated audience vote, less reliable on harder questions; extra-time: more seconds on the timer; ' +
+    'double-or-nothing: double points if correct, the streak is lost on a miss. Each has a cost and a per-game limit.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    lifeline: z.enum(lifelineNames).describe('Lifeline to use'),
+    questionToken: z.string().describe('The questionToken of the question the lifeline is for, passed back unchanged')
+  }),
+  outputSchema: lifelineResultSchema,
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; lifeline: LifelineName; questionToken: string }>) =>
+    withPlayer(caller, context.playerId, playerId => useLifeline(playerId, context.lifeline, context.questionToken))
 });
 
 export const skipQuestionTool = createTool({
   id: 'skip-trivia-question',
   description: 'Skip the current question and move to the next one',
   inputSchema: z.object({
-    playerId: z.string().describe('Unique player identifier')
+    playerId: playerIdInputSchema,
+    questionToken: z.string().describe('The questionToken of the question being skipped, passed back unchanged')
   }),
-  outputSchema: z.object({
-    success: z.boolean(),
+  outputSchema: gameResultSchema({
     message: z.string(),
-    nextQuestion: z.object({
-      index: z.number(),
-      question: z.string(),
-      options: z.array(z.string()),
-      category: z.string(),
-      difficulty: z.string()
-    }).optional(),
+    nextQuestion: questionPayloadSchema.optional(),
     skipsUsed: z.number(),
-    scorePenalty: z.number()
+    scorePenalty: z.number(),
+    achievements: z.array(badgeSchema).describe('Badges this skip unlocked (when it finished the game)')
   }),
-  execute: async ({ context }: { context: { playerId: string } }) => {
-    const { playerId } = context;
-    const gameState = gameStates.get(playerId);
-
-    if (!gameState) {
-      throw new Error('No active game found.');
-    }
-
-    if (gameState.skipsUsed >= 2) {
-      return {
-        success: false,
-        message: 'You have used all available skips for this game.',
-        skipsUsed: gameState.skipsUsed,
-        scorePenalty: 0
-      };
-    }
-
-    // Apply penalty
-    const penalty = 1;
-    gameState.score = Math.max(0, gameState.score - penalty);
-    gameState.skipsUsed += 1;
-    gameState.streak = 0;
-
-    // Move to next question
-    gameState.currentQuestionIndex += 1;
-    const gameCompleted = gameState.currentQuestionIndex >= gameState.questions.length;
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; questionToken: string }>) =>
+    withPlayer(caller, context.playerId, playerId => skipQuestion(playerId, context.questionToken))
+});
 
-    let nextQuestion = undefined;
-    if (!gameCompleted) {
-      const nextQ = gameState.questions[gameState.currentQuestionIndex];
-      nextQuestion = {
-        index: gameState.currentQuestionIndex + 1,
-        question: nextQ.question,
-        options: nextQ.options,
-        category: nextQ.category,
-        difficulty: nextQ.difficulty
-      };
-    }
+export const pauseGameTool = createTool({
+  id: 'pause-trivia-game',
+  description: 'Pause the current game. The question timer stops until the game is resumed; paused games expire eventually.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    status: z.enum(gameStatuses),
+    score: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, pauseGame)
+});
 
-    gameStates.set(playerId, gameState);
+export const resumeGameTool = createTool({
+  id: 'resume-trivia-game',
+  description: 'Resume a paused game at the question it was paused on',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    status: z.enum(gameStatuses),
+    score: z.number(),
+    currentQuestion: questionPayloadSchema,
+    totalQuestions: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, resumeGame)
+});
 
-    const message = gameCompleted 
-      ? `⏭️ Question skipped. Game completed! Final score: ${gameState.score}`
-      : `⏭️ Question skipped. (-${penalty} points)`;
+export const forfeitGameTool = createTool({
+  id: 'forfeit-trivia-game',
+  description: "Give up the current game. It ends as abandoned and doesn't count towards the leaderboards.",
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    status: z.enum(gameStatuses),
+    score: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, forfeitGame)
+});
 
-    return {
-      success: true,
-      message,
-      nextQuestion,
-      skipsUsed: gameState.skipsUsed,
-      scorePenalty: penalty
-    };
-  }
+const leaderboardEntrySchema = z.object({
+  rank: z.number(),
+  playerId: z.string(),
+  score: z.number().describe('Best single-game score in the scope'),
+  totalScore: z.number(),
+  gamesPlayed: z.number(),
+  accuracy: z.number()
 });
 
 export const getLeaderboardTool = createTool({
   id: 'get-trivia-leaderboard',
-  description: 'Get the current leaderboard with top players',
-  inputSchema: z.object({}),
-  outputSchema: z.object({
-    leaderboard: z.array(z.object({
-      playerId: z.string(),
-      score: z.number(),
-      streak: z.number(),
-      questionsAnswered: z.number()
-    })),
+  description:
+    'Get the leaderboard of completed games for today, this week or all time, optionally filtered by category. ' +
+    'Use mode "daily" with scope "today" for the daily challenge leaderboard.',
+  inputSchema: z.object({
+    scope: z.enum(leaderboardScopes).default('all-time').describe('Time window: today, week (since Monday UTC) or all-time'),
+    category: z.string().optional().describe('Only count games that included this category'),
+    mode: z.enum(gameModes).optional().describe('Only count daily challenge, practice or tournament games'),
+    page: z.number().int().min(1).default(1).describe('Page number, starting at 1'),
+    pageSize: z.number().int().min(1).max(50).default(10).describe('Entries per page'),
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    scope: z.enum(leaderboardScopes),
+    category: z.string().optional(),
+    mode: z.enum(gameModes).optional(),
+    leaderboard: z.array(leaderboardEntrySchema),
+    playerRank: leaderboardEntrySchema.optional(),
+    page: z.number(),
+    totalPages: z.number(),
     totalPlayers: z.number()
   }),
-  execute: async ({ context }: { context: Record<string, unknown> }) => {
-    // Convert game states to leaderboard entries
-    const entries = Array.from(gameStates.entries())
-      .map(([playerId, state]) => ({
-        playerId,
-        score: state.score,
-        streak: state.streak,
-        questionsAnswered: state.questions.filter(q => q.answered).length
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10); // Top 10
+  execute: async ({ context, ...caller }: ToolCall<{
+    scope?: LeaderboardScope; category?: string; mode?: GameMode; page?: number; pageSize?: number; playerId?: string
+  }>) => withGameErrors(async () => {
+    const { scope = 'all-time', category, mode, page = 1, pageSize = 10 } = context;
+    const playerId = findCallerPlayerId(caller, context.playerId);
+
+    // Only finished games count; in-progress sessions are not ranked
+    const results = await gameResultRepository.list({ since: scopeStartDate(scope), category, mode });
+    const ranked = rankResults(results);
+    const start = (page - 1) * pageSize;
 
     return {
-      leaderboard: entries,
-      totalPlayers: gameStates.size
+      success: true as const,
+      scope,
+      category,
+      mode,
+      leaderboard: ranked.slice(start, start + pageSize),
+      playerRank: playerId ? ranked.find(entry => entry.playerId === playerId) : undefined,
+      page,
+      totalPages: Math.ceil(ranked.length / pageSize),
+      totalPlayers: ranked.length
     };
-  }
+  })
 });
 
 export const getGameStatsTool = createTool({
   id: 'get-game-stats',
   description: 'Get current game statistics for a player',
   inputSchema: z.object({
-    playerId: z.string().describe('Unique player identifier')
+    playerId: playerIdInputSchema
   }),
-  outputSchema: z.object({
+  outputSchema: gameResultSchema({
     playerId: z.string(),
     score: z.number(),
     currentQuestion: z.number(),
@@ -447,41 +315,119 @@ export const getGameStatsTool = createTool({
     streak: z.number(),
     hintsUsed: z.number(),
     skipsUsed: z.number(),
+    lifelines: z.array(z.object({
+      name: z.enum(lifelineNames),
+      used: z.number(),
+      remaining: z.number(),
+      penalty: z.number().describe('Points each use costs')
+    })),
     correctAnswers: z.number(),
-    accuracy: z.number()
+    accuracy: z.number(),
+    rating: z.number().describe('Elo-style skill rating, kept between games'),
+    adaptive: z.boolean(),
+    status: z.enum(gameStatuses)
   }),
-  execute: async ({ context }: { context: { playerId: string } }) => {
-    const { playerId } = context;
-    const gameState = gameStates.get(playerId);
-
-    if (!gameState) {
-      throw new Error('No active game found.');
-    }
-
-    const answeredQuestions = gameState.questions.filter(q => q.answered);
-    const correctAnswers = answeredQuestions.filter(q => {
-      if (!q.userAnswer) return false;
-      const ua = q.userAnswer.toUpperCase();
-      if (ua.length === 1 && /^[A-D]$/.test(ua)) {
-        const idx = ua.charCodeAt(0) - 65;
-        const opt = gameState.questions[0].options[idx];
-        return opt === q.correct;
-      }
-      return ua === q.correct.toUpperCase();
-    }).length;
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, getGameStats)
+});
+const accuracyBreakdownSchema = z.array(z.object({
+  name: z.string(),
+  answered: z.number(),
+  correct: z.number(),
+  accuracy: z.number()
+}));
+
+export const getPlayerProfileTool = createTool({
+  id: 'get-player-profile',
+  description:
+    "Get a player's lifetime profile: games played, accuracy per category and difficulty, best streak, " +
+    'average hints and skips per game, and weakest categories',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    playerId: z.string(),
+    gamesPlayed: z.number().describe('Completed games'),
+    questionsAnswered: z.number(),
+    questionsSkipped: z.number(),
+    accuracy: z.number(),
+    bestScore: z.number(),
+    bestStreak: z.number(),
+    averageHintsPerGame: z.number(),
+    averageSkipsPerGame: z.number(),
+    byCategory: accuracyBreakdownSchema,
+    byDifficulty: accuracyBreakdownSchema,
+    weakestCategories: z.array(z.string()),
+    rating: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, async playerId => {
+    const [results, answers, rating] = await Promise.all([
+      gameResultRepository.list({ playerId }),
+      answerHistoryRepository.list(playerId),
+      getRating(playerRatingRepository, playerId)
+    ]);
+
+    return { success: true as const, ...buildPlayerProfile(playerId, results, answers), rating };
+  })
+});
 
-    const accuracy = answeredQuestions.length > 0 ? (correctAnswers / answeredQuestions.length) * 100 : 0;
+export const getAchievementsTool = createTool({
+  id: 'get-trivia-achievements',
+  description:
+    "Get a player's achievement badges: the ones unlocked (and when), the ones still to earn, " +
+    'and their current streak of days in a row with a finished game',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    playerId: z.string(),
+    unlocked: z.array(badgeSchema),
+    locked: z.array(achievementSchema),
+    playStreak: z.number().describe('Days in a row (UTC) with a completed game, counting today or yesterday')
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, async playerId => {
+    const [achievements, results] = await Promise.all([
+      listAchievements(achievementRepository, playerId),
+      gameResultRepository.list({ playerId })
+    ]);
 
     return {
+      success: true as const,
       playerId,
-      score: gameState.score,
-      currentQuestion: gameState.currentQuestionIndex + 1,
-      totalQuestions: gameState.questions.length,
-      streak: gameState.streak,
-      hintsUsed: gameState.hintsUsed,
-      skipsUsed: gameState.skipsUsed,
-      correctAnswers,
-      accuracy: Math.round(accuracy)
+      ...achievements,
+      playStreak: playStreak(results, toUtcDate(getClock().now()))
     };
-  }
-});
\ No newline at end of file
+  })
+});
+
+export const reviewGameTool = createTool({
+  id: 'review-trivia-game',
+  description:
+    "Review the player's current or just-finished game: every question played with their answer, the correct answer, " +
+    'points earned, hints and skips, and an explanation',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema
+  }),
+  outputSchema: gameResultSchema({
+    gameId: z.string(),
+    mode: z.enum(gameModes),
+    status: z.enum(gameStatuses),
+    gameCompleted: z.boolean(),
+    score: z.number(),
+    totalQuestions: z.number(),
+    questions: z.array(z.object({
+      number: z.number(),
+      question: z.string(),
+      category: z.string(),
+      difficulty: z.string(),
+      yourAnswer: z.string().optional(),
+      correctAnswer: z.string(),
+      correct: z.boolean(),
+      points: z.number(),
+      hintsUsed: z.number(),
+      skipped: z.boolean(),
+      timedOut: z.boolean(),
+      explanation: z.string().optional()
+    }))
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string }>) => withPlayer(caller, context.playerId, reviewGame)
+});
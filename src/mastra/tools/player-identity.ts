@@ -0,0 +1,37 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { GameError, withGameErrors } from '../game/errors';
+
+// Runtime context key a server can set to the authenticated player
+export const PLAYER_ID_CONTEXT_KEY = 'playerId';
+
+// What Mastra passes to a tool about who is calling
+export interface ToolCaller {
+  runtimeContext?: RuntimeContext;
+  resourceId?: string;
+  threadId?: string;
+}
+
+export const playerIdInputSchema = z.string().optional()
+  .describe('Only for calls without a conversation (scripts, tests); ignored when the player is known from the thread');
+
+// The player a tool call acts for: set by the server, else the memory resource (the user), else the thread.
+// The playerId argument is only a fallback for calls with none of these, so the model can't act for someone else.
+export function findCallerPlayerId(caller: ToolCaller, requested?: string): string | undefined {
+  const fromContext = caller.runtimeContext?.get(PLAYER_ID_CONTEXT_KEY);
+  return (typeof fromContext === 'string' && fromContext) || caller.resourceId || caller.threadId || requested || undefined;
+}
+
+export function callerPlayerId(caller: ToolCaller, requested?: string): string {
+  const playerId = findCallerPlayerId(caller, requested);
+  if (!playerId) throw new GameError("I couldn't tell which player this is. Start the game from a conversation.", 'UNKNOWN_PLAYER');
+  return playerId;
+}
+
+// Argument of a tool's execute function, with the caller details Mastra adds
+export type ToolCall<T> = ToolCaller & { context: T };
+
+// Run a game action for the calling player
+export function withPlayer<T>(caller: ToolCaller, requested: string | undefined, action: (playerId: string) => Promise<T>) {
+  return withGameErrors(async () => action(callerPlayerId(caller, requested)));
+}
@@ -0,0 +1,197 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getClock } from '../game/clock';
+import { gameResultSchema, toGameErrorResult, withGameErrors } from '../game/errors';
+import {
+  assertPackOwner,
+  getQuestionPack,
+  importQuestionPack,
+  QuestionPackError,
+  readQuestionPackFile,
+  summarizeQuestionPack
+} from '../game/question-packs';
+import {
+  detectPackFormat,
+  difficulties,
+  formatQuestionPack,
+  questionPackFormats,
+  type Difficulty,
+  type QuestionPackFormat
+} from '../questions';
+import { questionPackRepository } from '../storage';
+import { questionGenerationWorkflow } from '../workflows/question-generation-workflow';
+import { findCallerPlayerId, playerIdInputSchema, type ToolCall } from './player-identity';
+
+const issuesSchema = z.array(z.object({
+  line: z.number().describe('CSV: line in the file; JSON: position of the question in the list'),
+  problem: z.string()
+})).describe('Questions left out of the pack and why');
+
+const rejectedSchema = z.array(z.object({ question: z.string(), reason: z.string() })).describe('Dropped drafts and why');
+
+const packSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  author: z.string().optional(),
+  description: z.string().optional(),
+  categories: z.array(z.string()),
+  difficulty: z.enum([...difficulties, 'mixed']),
+  questionCount: z.number(),
+  updatedAt: z.string()
+});
+
+// Error result of a failed import, with the questions that were left out; unexpected errors still throw
+function importFailure(error: unknown) {
+  return { ...toGameErrorResult(error), issues: error instanceof QuestionPackError ? error.issues : [] };
+}
+
+export const importQuestionPackTool = createTool({
+  id: 'import-trivia-question-pack',
+  description:
+    'Import a question pack from JSON or CSV, given inline or as a file path. Every question is validated; ' +
+    'malformed questions, bad options and duplicates are left out and reported by line. ' +
+    'JSON: { name, author, description, difficulty, questions: [{ question, correct_answer, incorrect_answers, category, difficulty, type }] }. ' +
+    'CSV: optional "# name: ..." / "# author: ..." lines, then a header row with question, correct_answer, incorrect_answers (separated by |, with \\| for a bar inside an answer), ' +
+    'category, difficulty, type, accepted_answers, explanation. The importing player owns the pack: only they can replace or export it.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    contents: z.string().optional().describe('The pack file contents; give this or path'),
+    path: z.string().optional().describe('Path to a .json or .csv pack file, relative to the server\'s packs directory'),
+    format: z.enum(questionPackFormats).optional().describe('Defaults to the file extension, or a guess from the contents'),
+    name: z.string().optional().describe('Pack name; overrides the name in the file'),
+    author: z.string().optional(),
+    description: z.string().optional(),
+    replace: z.boolean().default(false).describe('Replace an existing pack with the same name')
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    pack: packSummarySchema,
+    imported: z.number().describe('Questions added to the pack'),
+    issues: issuesSchema
+  }, {
+    issues: issuesSchema
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{
+    playerId?: string; contents?: string; path?: string; format?: QuestionPackFormat; name?: string; author?: string; description?: string; replace?: boolean
+  }>) => {
+    try {
+      let contents = context.contents;
+      if (contents === undefined && context.path) contents = await readQuestionPackFile(context.path);
+      if (contents === undefined) throw new QuestionPackError('Give the pack contents or a path to the pack file.', 'INVALID_PACK');
+
+      const { pack, issues, replaced } = await importQuestionPack(questionPackRepository, {
+        contents,
+        format: context.format ?? detectPackFormat(contents, context.path),
+        name: context.name,
+        author: context.author,
+        description: context.description,
+        replace: context.replace,
+        ownerId: findCallerPlayerId(caller, context.playerId),
+        now: getClock().now()
+      });
+      const skipped = issues.length > 0 ? ` ${issues.length} question${issues.length === 1 ? ' was' : 's were'} left out.` : '';
+      return {
+        success: true as const,
+        message: `📦 ${replaced ? 'Replaced' : 'Imported'} the ${pack.name} pack with ${pack.questions.length} questions.${skipped}`,
+        pack: summarizeQuestionPack(pack),
+        imported: pack.questions.length,
+        issues
+      };
+    } catch (error) {
+      return importFailure(error);
+    }
+  }
+});
+
+export const generateQuestionsTool = createTool({
+  id: 'generate-trivia-questions',
+  description:
+    'Turn reference text (a pasted document or topic notes) into multiple-choice questions saved as a question pack for a private game. ' +
+    'Questions are drafted with distractors, then checked against the text: ones whose answer the text does not support, ' +
+    'or whose distractors it also supports, are dropped with a reason. The player owns the pack: only they can replace or export it.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    sourceText: z.string().describe('The reference text, as the player gave it'),
+    packName: z.string().describe('Name for the new pack, e.g. the topic'),
+    count: z.number().int().min(1).max(20).default(5).describe('Questions to draft; fewer may survive verification'),
+    category: z.string().optional().describe('Category for the questions; defaults to "General"'),
+    difficulty: z.enum(difficulties).optional(),
+    replace: z.boolean().default(false).describe('Replace an existing pack with the same name')
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    pack: z.object({ id: z.string(), name: z.string(), questionCount: z.number() }),
+    questionCount: z.number().describe('Questions that passed verification'),
+    rejected: rejectedSchema
+  }, {
+    questionCount: z.number().describe('Questions that passed verification'),
+    rejected: rejectedSchema
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{
+    playerId?: string; sourceText: string; packName: string; count?: number; category?: string; difficulty?: Difficulty; replace?: boolean
+  }>) => {
+    const { playerId, ...input } = context;
+    // The run's resource is the player, so the saved pack is theirs
+    const run = await questionGenerationWorkflow.createRunAsync({ resourceId: findCallerPlayerId(caller, playerId) });
+    const result = await run.start({
+      inputData: { ...input, count: input.count ?? 5, replace: input.replace ?? false },
+      runtimeContext: caller.runtimeContext
+    });
+    if (result.status !== 'success') {
+      return {
+        success: false as const,
+        code: 'GENERATION_FAILED' as const,
+        message: "Couldn't generate questions from that text right now. Please try again.",
+        questionCount: 0,
+        rejected: []
+      };
+    }
+
+    const { message, pack, questions, rejected, saveError } = result.result;
+    if (!pack) {
+      // Either nothing survived verification or the pack name is taken
+      return { success: false as const, code: saveError ?? ('GENERATION_FAILED' as const), message, questionCount: questions.length, rejected };
+    }
+    return { success: true as const, message, pack, questionCount: questions.length, rejected };
+  }
+});
+
+export const listQuestionPacksTool = createTool({
+  id: 'list-trivia-question-packs',
+  description: 'List the imported question packs with their author, categories, difficulty and size. Start a game with a pack to play it.',
+  inputSchema: z.object({}),
+  outputSchema: gameResultSchema({
+    packs: z.array(packSummarySchema)
+  }),
+  execute: async () => withGameErrors(async () => ({
+    success: true as const,
+    packs: (await questionPackRepository.list()).map(summarizeQuestionPack)
+  }))
+});
+
+export const exportQuestionPackTool = createTool({
+  id: 'export-trivia-question-pack',
+  description: 'Export a question pack the player owns as JSON or CSV, in the same format the import accepts',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    pack: z.string().describe('Pack name or id'),
+    format: z.enum(questionPackFormats).default('json')
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    format: z.enum(questionPackFormats),
+    contents: z.string()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; pack: string; format?: QuestionPackFormat }>) => withGameErrors(async () => {
+    const { format = 'json' } = context;
+    const pack = await getQuestionPack(questionPackRepository, context.pack);
+    // The export includes the answers
+    assertPackOwner(pack, findCallerPlayerId(caller, context.playerId), 'export');
+    return {
+      success: true as const,
+      message: `📦 The ${pack.name} pack as ${format.toUpperCase()} (${pack.questions.length} questions).`,
+      format,
+      contents: formatQuestionPack(pack, format)
+    };
+  })
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { questionTimeLimit, remainingSeconds } from '../game/timing';
+import { questionTypes, type Question } from '../questions';
+
+// Questions a game can ask for. Bounded so a client can't request an empty, fractional or bank-sized game.
+export const MAX_QUESTIONS_PER_GAME = 50;
+export const questionsCountSchema = z.number().int().min(1).max(MAX_QUESTIONS_PER_GAME);
+
+export const questionPayloadSchema = z.object({
+  index: z.number(),
+  type: z.enum(questionTypes).describe('multiple: answer A-D; boolean: True/False; text: type the answer'),
+  question: z.string(),
+  options: z.array(z.string()).describe('Answer options (empty for free-text questions)'),
+  category: z.string(),
+  difficulty: z.string(),
+  timeLimitSeconds: z.number().optional().describe('Seconds allowed for this question (absent when untimed)'),
+  remainingSeconds: z.number().optional().describe('Seconds left before the answer counts as a timeout'),
+  questionToken: z.string().describe('Pass back unchanged when answering or skipping this question')
+});
+
+// Player-facing view of a question. Never includes the correct answer, accepted spellings or explanation.
+export function toQuestionPayload(question: Question, index: number, timeLimitSeconds: number, now: Date) {
+  const limit = questionTimeLimit(question, timeLimitSeconds);
+  return {
+    index: index + 1,
+    type: question.type ?? 'multiple',
+    question: question.question,
+    options: question.options,
+    category: question.category,
+    difficulty: question.difficulty,
+    timeLimitSeconds: limit > 0 ? limit : undefined,
+    remainingSeconds: remainingSeconds(question, timeLimitSeconds, now),
+    questionToken: question.nonce ?? ''
+  };
+}
+
+export type QuestionPayload = ReturnType<typeof toQuestionPayload>;
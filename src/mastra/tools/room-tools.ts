@@ -0,0 +1,304 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getClock } from '../game/clock';
+import { gameResultSchema, withGameErrors } from '../game/errors';
+import {
+  assertCanStartRoom,
+  assertCurrentRoomQuestion,
+  closeRound,
+  createRoom,
+  currentRoomQuestion,
+  findPlayer,
+  generateRoomCode,
+  isRoundDue,
+  joinRoom,
+  rankRoomPlayers,
+  RoomError,
+  startRoomGame,
+  submitRoomAnswer
+} from '../game/rooms';
+import { defaultScoringPreset, getScoringRules, scoringPresetNames, type ScoringPresetName } from '../game/scoring';
+import type { Room, RoomRoundSummary } from '../game/types';
+import { questionProvider } from '../questions';
+import { roomRepository } from '../storage';
+import { playerIdInputSchema, withPlayer, type ToolCall } from './player-identity';
+import { questionPayloadSchema, questionsCountSchema, toQuestionPayload } from './question-payload';
+
+const roomCodeSchema = z.string().describe('Six-character room code, e.g. "K7QP2M"');
+
+const roundSummarySchema = z.object({
+  questionNumber: z.number(),
+  question: z.string(),
+  correctAnswer: z.string(),
+  results: z.array(z.object({
+    playerId: z.string(),
+    answered: z.boolean(),
+    correct: z.boolean(),
+    timedOut: z.boolean(),
+    points: z.number()
+  }))
+});
+
+const scoreboardSchema = z.array(z.object({
+  rank: z.number(),
+  playerId: z.string(),
+  score: z.number(),
+  streak: z.number(),
+  correctAnswers: z.number(),
+  isHost: z.boolean()
+}));
+
+function normalizeRoomCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+function presentRoomQuestion(room: Room, now: Date) {
+  const question = currentRoomQuestion(room);
+  return question ? toQuestionPayload(question, room.currentQuestionIndex, room.timeLimitSeconds, now) : undefined;
+}
+
+// Members who still owe an answer for the current round
+function waitingFor(room: Room) {
+  const question = currentRoomQuestion(room);
+  return question ? room.players.filter(p => !p.answers[question.id]).map(p => p.playerId) : [];
+}
+
+function notFound(roomCode: string) {
+  return new RoomError(`Room ${roomCode} doesn't exist. Check the code or create a new room.`, 'ROOM_NOT_FOUND');
+}
+
+export const createRoomTool = createTool({
+  id: 'create-trivia-room',
+  description: 'Create a multiplayer trivia room. The creator becomes the host and shares the room code with friends.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    questionsCount: questionsCountSchema.optional().describe('Number of questions'),
+    scoring: z.enum(scoringPresetNames).optional().describe('Scoring preset for the room'),
+    timeLimitSeconds: z.number().int().min(0).optional().describe('Seconds per round, 0 for untimed')
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    roomCode: z.string(),
+    players: z.array(z.string())
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{
+    playerId?: string; questionsCount?: number; scoring?: ScoringPresetName; timeLimitSeconds?: number
+  }>) => withPlayer(caller, context.playerId, async playerId => {
+    const { scoring = defaultScoringPreset } = context;
+    const rules = getScoringRules(scoring);
+    const now = getClock().now();
+
+    // Codes are random; retry on the rare collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const room = createRoom({
+        code: generateRoomCode(),
+        hostId: playerId,
+        scoringPreset: scoring,
+        timeLimitSeconds: context.timeLimitSeconds ?? rules.timeLimitSeconds,
+        questionsCount: context.questionsCount ?? rules.questionsPerGame,
+        now
+      });
+      if (await roomRepository.create(room)) {
+        return {
+          success: true as const,
+          message: `🏠 Room ${room.code} created! Share the code with your friends, then start the game when everyone has joined.`,
+          roomCode: room.code,
+          players: [playerId]
+        };
+      }
+    }
+
+    throw new RoomError('Failed to create a room. Please try again.', 'ROOM_BUSY');
+  })
+});
+
+export const joinRoomTool = createTool({
+  id: 'join-trivia-room',
+  description: 'Join a multiplayer trivia room that has not started yet',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    roomCode: roomCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    roomCode: z.string(),
+    hostId: z.string(),
+    players: z.array(z.string())
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; roomCode: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const roomCode = normalizeRoomCode(context.roomCode);
+      const now = getClock().now();
+
+      const updated = await roomRepository.update(roomCode, room => joinRoom(room, playerId, now));
+      if (!updated) throw notFound(roomCode);
+
+      const { room } = updated;
+      return {
+        success: true as const,
+        message: `👋 ${playerId} joined room ${roomCode}! ${room.players.length} player(s) waiting for ${room.hostId} to start.`,
+        roomCode,
+        hostId: room.hostId,
+        players: room.players.map(p => p.playerId)
+      };
+    })
+});
+
+export const startRoomGameTool = createTool({
+  id: 'start-trivia-room-game',
+  description: 'Host only: start the game in a room. Every member gets the same questions.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    roomCode: roomCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    currentQuestion: questionPayloadSchema.optional(),
+    players: z.array(z.string()),
+    totalQuestions: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; roomCode: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const roomCode = normalizeRoomCode(context.roomCode);
+      const existing = await roomRepository.get(roomCode);
+      if (!existing) throw notFound(roomCode);
+      // Checked before the fetch so a non-host or a repeat start doesn't spend a question source request;
+      // the update checks again in case the room started in the meantime
+      assertCanStartRoom(existing, playerId);
+
+      // Fetch outside the update so a slow question source doesn't hold up other players' writes
+      const questions = await questionProvider.fetchQuestions({ amount: existing.questionsCount, type: 'multiple' });
+      const now = getClock().now();
+      const updated = await roomRepository.update(roomCode, room => startRoomGame(room, playerId, questions, now));
+      if (!updated) throw notFound(roomCode);
+
+      const { room } = updated;
+      return {
+        success: true as const,
+        message: `🚀 Room ${roomCode} is live! ${room.players.length} players, ${room.questions.length} questions. Everyone answers the same question.`,
+        currentQuestion: presentRoomQuestion(room, now),
+        players: room.players.map(p => p.playerId),
+        totalQuestions: room.questions.length
+      };
+    })
+});
+
+export const answerRoomQuestionTool = createTool({
+  id: 'answer-trivia-room-question',
+  description:
+    'Submit a player\'s answer to the current question in a multiplayer room. ' +
+    'The round closes when every member has answered or the timer runs out.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    roomCode: roomCodeSchema,
+    answer: z.string().describe('Answer choice (A, B, C, D), True/False (or yes/no) for boolean questions, or free text'),
+    questionToken: z.string().describe('The questionToken of the question being answered, passed back unchanged')
+  }),
+  outputSchema: gameResultSchema({
+    accepted: z.boolean().describe('False when the round had already timed out before this answer arrived'),
+    message: z.string(),
+    correct: z.boolean().optional(),
+    points: z.number().optional(),
+    waitingFor: z.array(z.string()),
+    roundSummary: roundSummarySchema.optional(),
+    nextQuestion: questionPayloadSchema.optional(),
+    gameCompleted: z.boolean()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; roomCode: string; answer: string; questionToken: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const roomCode = normalizeRoomCode(context.roomCode);
+      const now = getClock().now();
+
+      const updated = await roomRepository.update(roomCode, room => {
+        findPlayer(room, playerId);
+        assertCurrentRoomQuestion(room, context.questionToken);
+        // A late answer must not land on the next question: close the expired round instead
+        if (isRoundDue(room, now)) {
+          return { accepted: false, answer: undefined, summary: closeRound(room, now) };
+        }
+        const answer = submitRoomAnswer(room, playerId, context.answer, context.questionToken, now);
+        const summary: RoomRoundSummary | undefined = isRoundDue(room, now) ? closeRound(room, now) : undefined;
+        return { accepted: true, answer, summary };
+      });
+      if (!updated) throw notFound(roomCode);
+
+      const { room, result } = updated;
+      const gameCompleted = room.status === 'finished';
+      let message = !result.accepted
+        ? '⏰ Time ran out before your answer arrived.'
+        : result.answer!.correct
+          ? `✅ Correct! +${result.answer!.points} points.`
+          : result.answer!.timedOut ? "⏰ Time's up!" : '❌ Not this time.';
+
+      if (result.summary) {
+        message += ` Round ${result.summary.questionNumber} is over. The correct answer was: ${result.summary.correctAnswer}.`;
+      } else {
+        message += ` Waiting for ${waitingFor(room).join(', ')}.`;
+      }
+      if (gameCompleted) {
+        const [winner] = rankRoomPlayers(room);
+        message += `\n\n🏆 Game over! ${winner.playerId} wins with ${winner.score} points.`;
+      }
+
+      return {
+        success: true as const,
+        accepted: result.accepted,
+        message,
+        correct: result.answer?.correct,
+        points: result.answer?.points,
+        waitingFor: waitingFor(room),
+        roundSummary: result.summary,
+        nextQuestion: result.summary ? presentRoomQuestion(room, now) : undefined,
+        gameCompleted
+      };
+    })
+});
+
+export const getRoomScoreboardTool = createTool({
+  id: 'get-trivia-room-scoreboard',
+  description: 'Get the live scoreboard, current question and round status of a multiplayer room',
+  inputSchema: z.object({
+    roomCode: roomCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    status: z.enum(['lobby', 'playing', 'finished']),
+    hostId: z.string(),
+    questionNumber: z.number().optional(),
+    totalQuestions: z.number(),
+    currentQuestion: questionPayloadSchema.optional(),
+    waitingFor: z.array(z.string()),
+    scoreboard: scoreboardSchema,
+    lastRound: roundSummarySchema.optional()
+  }),
+  execute: async ({ context }: { context: { roomCode: string } }) => withGameErrors(async () => {
+    const roomCode = normalizeRoomCode(context.roomCode);
+    const now = getClock().now();
+
+    // Reading the scoreboard also closes a round whose timer has run out
+    const updated = await roomRepository.update(roomCode, room => {
+      if (isRoundDue(room, now)) closeRound(room, now);
+    });
+    if (!updated) throw notFound(roomCode);
+
+    const { room } = updated;
+    const message = room.status === 'lobby'
+      ? `Room ${roomCode} is waiting for ${room.hostId} to start (${room.players.length} players).`
+      : room.status === 'playing'
+        ? `Room ${roomCode}: question ${room.currentQuestionIndex + 1} of ${room.questions.length}.`
+        : `Room ${roomCode}: game over!`;
+
+    return {
+      success: true as const,
+      message,
+      status: room.status,
+      hostId: room.hostId,
+      questionNumber: room.status === 'playing' ? room.currentQuestionIndex + 1 : undefined,
+      totalQuestions: room.questions.length || room.questionsCount,
+      currentQuestion: presentRoomQuestion(room, now),
+      waitingFor: waitingFor(room),
+      scoreboard: rankRoomPlayers(room),
+      lastRound: room.lastRound
+    };
+  })
+});
@@ -0,0 +1,328 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getClock } from '../game/clock';
+import { gameResultSchema, withGameErrors } from '../game/errors';
+import { getRating } from '../game/rating';
+import { generateRoomCode } from '../game/rooms';
+import { defaultScoringPreset, getScoringRules, scoringPresetNames, type ScoringPresetName } from '../game/scoring';
+import { startTournamentMatch } from '../game/session';
+import {
+  closeTournamentRound,
+  createTournament,
+  currentRoundMatches,
+  registerPlayer,
+  startTournament,
+  TournamentError,
+  tournamentStandings
+} from '../game/tournaments';
+import {
+  tournamentFormats,
+  tournamentSeedings,
+  type Tournament,
+  type TournamentFormat,
+  type TournamentMatch,
+  type TournamentSeeding
+} from '../game/types';
+import { gameResultRepository, playerRatingRepository, tournamentRepository } from '../storage';
+import { findCallerPlayerId, playerIdInputSchema, withPlayer, type ToolCall } from './player-identity';
+import { questionPayloadSchema } from './question-payload';
+
+const tournamentCodeSchema = z.string().describe('Six-character tournament code, e.g. "T4KQ9Z"');
+
+const matchSchema = z.object({
+  matchId: z.string(),
+  round: z.number(),
+  players: z.array(z.object({
+    playerId: z.string(),
+    finished: z.boolean().describe('Has played their side of the match'),
+    score: z.number().optional().describe('Shown once both players have finished')
+  })),
+  bye: z.boolean(),
+  status: z.enum(['pending', 'finished']),
+  winnerId: z.string().optional(),
+  draw: z.boolean().optional()
+});
+
+const standingSchema = z.object({
+  rank: z.number(),
+  playerId: z.string(),
+  seed: z.number().optional(),
+  played: z.number(),
+  wins: z.number(),
+  draws: z.number(),
+  losses: z.number(),
+  points: z.number().describe('Round-robin table points: 3 for a win, 1 for a draw'),
+  totalScore: z.number(),
+  roundReached: z.number(),
+  eliminated: z.boolean().describe('Knockout only: lost a match')
+});
+
+function normalizeTournamentCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+function notFound(code: string) {
+  return new TournamentError(`Tournament ${code} doesn't exist. Check the code.`, 'TOURNAMENT_NOT_FOUND');
+}
+
+// Scores stay hidden until both players have finished, so nobody plays knowing the target
+function describeMatch(match: TournamentMatch) {
+  return {
+    matchId: match.id,
+    round: match.round,
+    players: match.players.map(playerId => ({
+      playerId,
+      finished: Boolean(match.entries[playerId]),
+      score: match.status === 'finished' ? match.entries[playerId]?.score : undefined
+    })),
+    bye: match.players.length === 1,
+    status: match.status,
+    winnerId: match.winnerId,
+    draw: match.draw
+  };
+}
+
+// Rating, or average score of completed games, for each registered player
+async function seedValues(tournament: Tournament) {
+  const values: Record<string, number> = {};
+  for (const { playerId } of tournament.players) {
+    if (tournament.seedBy === 'rating') {
+      values[playerId] = await getRating(playerRatingRepository, playerId);
+    } else {
+      const results = await gameResultRepository.list({ playerId });
+      values[playerId] = results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0;
+    }
+  }
+  return values;
+}
+
+function formatPairings(matches: TournamentMatch[]) {
+  return matches
+    .map(m => (m.players.length === 1 ? `${m.players[0]} has a bye` : `${m.players[0]} vs ${m.players[1]}`))
+    .join(', ');
+}
+
+export const createTournamentTool = createTool({
+  id: 'create-trivia-tournament',
+  description:
+    'Create a trivia tournament. The creator organizes it: players register with the code, then the organizer starts it. ' +
+    'A bracket is single elimination; a round-robin has everyone play everyone once.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    name: z.string().describe('Tournament name, e.g. "Friday Team Trivia"'),
+    format: z.enum(tournamentFormats).default('bracket'),
+    seedBy: z.enum(tournamentSeedings).default('rating').describe('Seed players by skill rating or by average past score'),
+    questionsPerMatch: z.number().int().min(1).max(20).optional().describe('Questions in each head-to-head match'),
+    scoring: z.enum(scoringPresetNames).optional().describe('Scoring preset for every match')
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    tournamentCode: z.string()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{
+    playerId?: string; name: string; format?: TournamentFormat; seedBy?: TournamentSeeding; questionsPerMatch?: number; scoring?: ScoringPresetName
+  }>) => withPlayer(caller, context.playerId, async organizerId => {
+    const { format = 'bracket', seedBy = 'rating', scoring = defaultScoringPreset } = context;
+    const now = getClock().now();
+
+    // Codes are random; retry on the rare collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const tournament = createTournament({
+        code: generateRoomCode(),
+        name: context.name.trim() || 'Trivia Tournament',
+        organizerId,
+        format,
+        seedBy,
+        scoringPreset: scoring,
+        questionsPerMatch: context.questionsPerMatch ?? Math.min(5, getScoringRules(scoring).questionsPerGame),
+        now
+      });
+      if (await tournamentRepository.create(tournament)) {
+        return {
+          success: true as const,
+          message: `🏟️ ${tournament.name} (${format}) is open for registration! Share the code ${tournament.code}, ` +
+            'then start it when everyone has signed up.',
+          tournamentCode: tournament.code
+        };
+      }
+    }
+
+    throw new TournamentError('Failed to create a tournament. Please try again.', 'TOURNAMENT_BUSY');
+  })
+});
+
+export const registerForTournamentTool = createTool({
+  id: 'register-for-trivia-tournament',
+  description: 'Register the player for a tournament that has not started yet',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    tournamentCode: tournamentCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    players: z.array(z.string())
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; tournamentCode: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const code = normalizeTournamentCode(context.tournamentCode);
+      const now = getClock().now();
+
+      const updated = await tournamentRepository.update(code, tournament => registerPlayer(tournament, playerId, now));
+      if (!updated) throw notFound(code);
+
+      const { tournament } = updated;
+      return {
+        success: true as const,
+        message: `✍️ ${playerId} is registered for ${tournament.name}! ${tournament.players.length} player(s) so far.`,
+        players: tournament.players.map(p => p.playerId)
+      };
+    })
+});
+
+export const startTournamentTool = createTool({
+  id: 'start-trivia-tournament',
+  description: 'Organizer only: close registration, seed the players and draw the first round of pairings',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    tournamentCode: tournamentCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    seeds: z.array(z.object({ seed: z.number(), playerId: z.string(), seedValue: z.number() })),
+    matches: z.array(matchSchema).describe('Pairings for the first round')
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; tournamentCode: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const code = normalizeTournamentCode(context.tournamentCode);
+      const existing = await tournamentRepository.get(code);
+      if (!existing) throw notFound(code);
+
+      // Look up ratings or scores outside the update so a slow query doesn't hold up registrations
+      const values = await seedValues(existing);
+      const now = getClock().now();
+      const updated = await tournamentRepository.update(code, tournament => startTournament(tournament, playerId, values, now));
+      if (!updated) throw notFound(code);
+
+      const { tournament } = updated;
+      const matches = currentRoundMatches(tournament);
+      return {
+        success: true as const,
+        message: `🚀 ${tournament.name} has begun with ${tournament.players.length} players! Round 1: ${formatPairings(matches)}.`,
+        seeds: [...tournament.players]
+          .sort((a, b) => a.seed! - b.seed!)
+          .map(p => ({ seed: p.seed!, playerId: p.playerId, seedValue: Math.round(p.seedValue ?? 0) })),
+        matches: matches.map(describeMatch)
+      };
+    })
+});
+
+export const playTournamentMatchTool = createTool({
+  id: 'play-trivia-tournament-match',
+  description:
+    "Start or resume the player's current tournament match. It becomes their active game: answer, use lifelines " +
+    'and skip with the regular game tools. Both players get the same questions; the higher score wins.',
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    tournamentCode: tournamentCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    tournamentName: z.string(),
+    round: z.number(),
+    matchId: z.string(),
+    opponent: z.string(),
+    currentQuestion: questionPayloadSchema,
+    totalQuestions: z.number()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; tournamentCode: string }>) =>
+    withPlayer(caller, context.playerId, playerId => startTournamentMatch(playerId, normalizeTournamentCode(context.tournamentCode)))
+});
+
+export const getTournamentStandingsTool = createTool({
+  id: 'get-trivia-tournament-standings',
+  description: "Get a tournament's standings, the current round's pairings and results, and the player's next match",
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    tournamentCode: tournamentCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    name: z.string(),
+    format: z.enum(tournamentFormats),
+    status: z.enum(['registration', 'running', 'finished']),
+    round: z.number().optional().describe('Round being played'),
+    totalRounds: z.number().optional().describe('Known up front for round-robin; knockout rounds are drawn as winners advance'),
+    players: z.array(z.string()),
+    standings: z.array(standingSchema),
+    currentMatches: z.array(matchSchema),
+    nextMatch: matchSchema.optional().describe("The player's match in the current round, if they have one"),
+    championId: z.string().optional()
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; tournamentCode: string }>) => withGameErrors(async () => {
+    const code = normalizeTournamentCode(context.tournamentCode);
+    const tournament = await tournamentRepository.get(code);
+    if (!tournament) throw notFound(code);
+
+    const playerId = findCallerPlayerId(caller, context.playerId);
+    const matches = currentRoundMatches(tournament);
+    const nextMatch = playerId ? matches.find(m => m.players.includes(playerId)) : undefined;
+    const round = tournament.status === 'running' ? tournament.currentRound + 1 : undefined;
+
+    const message = tournament.status === 'registration'
+      ? `${tournament.name} is open for registration (${tournament.players.length} players). Waiting for ${tournament.organizerId} to start it.`
+      : tournament.status === 'running'
+        ? `${tournament.name}, round ${round}: ${formatPairings(matches)}.`
+        : `${tournament.name} is over. 🏆 Champion: ${tournament.championId}!`;
+
+    return {
+      success: true as const,
+      message,
+      name: tournament.name,
+      format: tournament.format,
+      status: tournament.status,
+      round,
+      totalRounds: tournament.format === 'round-robin' ? tournament.rounds.length : undefined,
+      players: tournament.players.map(p => p.playerId),
+      standings: tournament.status === 'registration' ? [] : tournamentStandings(tournament),
+      currentMatches: matches.map(describeMatch),
+      nextMatch: nextMatch ? describeMatch(nextMatch) : undefined,
+      championId: tournament.championId
+    };
+  })
+});
+
+export const closeTournamentRoundTool = createTool({
+  id: 'close-trivia-tournament-round',
+  description:
+    "Organizer only: end the current round when players can't finish their matches. " +
+    "Anyone who hasn't played their side forfeits it, and the next round is drawn.",
+  inputSchema: z.object({
+    playerId: playerIdInputSchema,
+    tournamentCode: tournamentCodeSchema
+  }),
+  outputSchema: gameResultSchema({
+    message: z.string(),
+    closedMatches: z.array(matchSchema),
+    currentMatches: z.array(matchSchema)
+  }),
+  execute: async ({ context, ...caller }: ToolCall<{ playerId?: string; tournamentCode: string }>) =>
+    withPlayer(caller, context.playerId, async playerId => {
+      const code = normalizeTournamentCode(context.tournamentCode);
+      const now = getClock().now();
+
+      const updated = await tournamentRepository.update(code, tournament => closeTournamentRound(tournament, playerId, now));
+      if (!updated) throw notFound(code);
+
+      const { tournament, result } = updated;
+      const matches = currentRoundMatches(tournament);
+      const message = tournament.status === 'finished'
+        ? `Round closed. 🏆 ${tournament.championId} wins ${tournament.name}!`
+        : `Round closed with ${result.length} unfinished match(es) settled. Round ${tournament.currentRound + 1}: ${formatPairings(matches)}.`;
+      return {
+        success: true as const,
+        message,
+        closedMatches: result.map(describeMatch),
+        currentMatches: matches.map(describeMatch)
+      };
+    })
+});
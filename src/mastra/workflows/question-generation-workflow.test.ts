@@ -0,0 +1,95 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { describe, expect, it } from 'vitest';
+import { questionPackRepository } from '../storage';
+import { QUESTION_WRITER_CONTEXT_KEY, type QuestionCheck, type QuestionDraft, type QuestionWriter } from '../game/question-generation';
+import { questionGenerationWorkflow } from './question-generation-workflow';
+
+const sourceText = 'Mercury is the closest planet to the Sun. Venus is the hottest planet. Mars has two moons.';
+
+const draft = (question: string, correct: string, distractors: string[]): QuestionDraft => ({ question, correct, distractors });
+const supported: QuestionCheck = { answerSupported: true, supportedDistractors: [], reason: 'stated in the text' };
+
+// Stands in for the question writer agent: drafts come back as given, checks are looked up by question text
+function stubWriter(drafts: unknown, checks: Record<string, unknown> = {}): QuestionWriter {
+  return {
+    generate: async messages => {
+      const prompt = messages[0].content;
+      if (prompt.startsWith('Write')) return { object: { questions: drafts } };
+      const question = /^Question: (.*)$/m.exec(prompt)![1];
+      return { object: checks[question] ?? supported };
+    }
+  };
+}
+
+async function generate(writer: QuestionWriter, count: number) {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(QUESTION_WRITER_CONTEXT_KEY, writer);
+  const run = await questionGenerationWorkflow.createRunAsync();
+  return run.start({ inputData: { sourceText, count, replace: false }, runtimeContext });
+}
+
+describe('question generation workflow', () => {
+  it('keeps verified drafts and reports the dropped ones', async () => {
+    const writer = stubWriter(
+      [
+        draft('Which planet is closest to the Sun?', 'Mercury', ['Venus', 'Mars', 'Earth']),
+        draft('Which planet is the hottest?', 'Mercury', ['Venus', 'Mars', 'Earth']),
+        draft('How many moons does Mars have?', 'Two', ['One', 'Three', 'None']),
+        draft('Which planet has rings?', 'Saturn', ['Mars'])
+      ],
+      {
+        'Which planet is the hottest?': { answerSupported: false, supportedDistractors: ['Venus'], reason: 'Venus is the hottest' },
+        'How many moons does Mars have?': { answerSupported: true, supportedDistractors: ['two '], reason: 'Mars has two moons' }
+      }
+    );
+
+    const result = await generate(writer, 4);
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+
+    expect(result.result.questions.map(q => q.question)).toEqual(['Which planet is closest to the Sun?', 'How many moons does Mars have?']);
+    expect(result.result.rejected).toEqual([
+      { question: 'Which planet has rings?', reason: 'needs 3 distractors, got 1' },
+      { question: 'Which planet is the hottest?', reason: expect.stringContaining("doesn't support the answer \"Mercury\"") }
+    ]);
+  });
+
+  it('reports drafts beyond the count asked for', async () => {
+    const writer = stubWriter([
+      draft('Which planet is closest to the Sun?', 'Mercury', ['Venus', 'Mars', 'Earth']),
+      draft('How many moons does Mars have?', 'Two', ['One', 'Three', 'None'])
+    ]);
+
+    const result = await generate(writer, 1);
+    if (result.status !== 'success') throw new Error(`workflow ${result.status}`);
+    expect(result.result.questions).toHaveLength(1);
+    expect(result.result.rejected).toEqual([{ question: 'How many moons does Mars have?', reason: 'more than the 1 question asked for' }]);
+  });
+
+  it('drops a question whose check is malformed', async () => {
+    const writer = stubWriter([draft('Which planet is closest to the Sun?', 'Mercury', ['Venus', 'Mars', 'Earth'])], {
+      'Which planet is closest to the Sun?': { answerSupported: 'yes' }
+    });
+
+    const result = await generate(writer, 1);
+    if (result.status !== 'success') throw new Error(`workflow ${result.status}`);
+    expect(result.result.questions).toEqual([]);
+    expect(result.result.rejected[0].reason).toMatch(/^verification failed/);
+  });
+
+  it("saves the pack for the run's player", async () => {
+    const runtimeContext = new RuntimeContext();
+    runtimeContext.set(QUESTION_WRITER_CONTEXT_KEY, stubWriter([draft('Which planet is closest to the Sun?', 'Mercury', ['Venus', 'Mars', 'Earth'])]));
+    const run = await questionGenerationWorkflow.createRunAsync({ resourceId: 'alice' });
+    const result = await run.start({ inputData: { sourceText, count: 1, packName: 'Owned planets', replace: false }, runtimeContext });
+
+    if (result.status !== 'success') throw new Error(`workflow ${result.status}`);
+    expect(result.result.pack?.id).toBe('owned-planets');
+    expect((await questionPackRepository.get('owned-planets'))?.ownerId).toBe('alice');
+  });
+
+  it('fails when the drafts are malformed', async () => {
+    const result = await generate(stubWriter('not a list'), 1);
+    expect(result.status).toBe('failed');
+  });
+});
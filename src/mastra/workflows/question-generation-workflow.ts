@@ -0,0 +1,220 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { getClock } from '../game/clock';
+import { questionPackErrorCodes } from '../game/errors';
+import { checkRejection, draftQuestions, questionWriterFrom, verifyQuestion } from '../game/question-generation';
+import { QuestionPackError, saveQuestionPack, summarizeQuestionPack } from '../game/question-packs';
+import {
+  checkRawQuestion,
+  difficulties,
+  normalizeQuestion,
+  questionFingerprint,
+  questionTypes,
+  type RawQuestion,
+} from '../questions';
+import { questionPackRepository } from '../storage';
+import { findCallerPlayerId } from '../tools/player-identity';
+
+// Distractors each generated question must have, so every question gets the usual A-D options
+const DISTRACTORS_PER_QUESTION = 3;
+
+const workflowInputSchema = z.object({
+  sourceText: z.string().min(1).describe('Reference text (a document or topic notes) the questions are based on'),
+  count: z.number().int().min(1).max(20).default(5).describe('Questions to draft; fewer may survive verification'),
+  category: z.string().optional().describe('Category for the questions; defaults to "General"'),
+  difficulty: z.enum(difficulties).optional().describe('Difficulty to aim for; omit for a mix'),
+  packName: z.string().optional().describe('Save the verified questions as a question pack with this name'),
+  author: z.string().optional(),
+  replace: z.boolean().default(false).describe('Replace an existing pack with the same name'),
+});
+
+// A question in the raw source shape, as stored in packs
+const rawQuestionSchema = z.object({
+  category: z.string(),
+  type: z.string().optional(),
+  difficulty: z.string(),
+  question: z.string(),
+  correct_answer: z.string(),
+  incorrect_answers: z.array(z.string()),
+  accepted_answers: z.array(z.string()).optional(),
+  explanation: z.string().optional(),
+});
+
+const rejectionSchema = z.object({
+  question: z.string(),
+  reason: z.string(),
+});
+
+const draftedSchema = workflowInputSchema.extend({
+  candidates: z.array(rawQuestionSchema),
+  rejected: z.array(rejectionSchema),
+});
+
+const verifiedSchema = workflowInputSchema.extend({
+  accepted: z.array(rawQuestionSchema),
+  rejected: z.array(rejectionSchema),
+});
+
+// The generated questions in the game's Question shape
+const generatedQuestionSchema = z.object({
+  id: z.string(),
+  type: z.enum(questionTypes),
+  category: z.string(),
+  difficulty: z.string(),
+  question: z.string(),
+  options: z.array(z.string()),
+  correct: z.string(),
+  explanation: z.string().optional(),
+});
+
+const workflowOutputSchema = z.object({
+  message: z.string(),
+  questions: z.array(generatedQuestionSchema),
+  rejected: z.array(rejectionSchema).describe('Dropped drafts and why'),
+  pack: z.object({
+    id: z.string(),
+    name: z.string(),
+    questionCount: z.number(),
+  }).optional().describe('The pack the questions were saved as'),
+  saveError: z.enum(questionPackErrorCodes).optional().describe('Why the questions could not be saved as the pack'),
+});
+
+// Step: draft questions from the text, keeping only well-formed multiple-choice questions
+const draftStep = createStep({
+  id: 'draft-questions',
+  description: 'Draft multiple-choice questions with distractors from the reference text',
+  inputSchema: workflowInputSchema,
+  outputSchema: draftedSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    const drafts = await draftQuestions(questionWriterFrom(runtimeContext), {
+      sourceText: inputData.sourceText,
+      count: inputData.count,
+      difficulty: inputData.difficulty,
+    });
+
+    const candidates: RawQuestion[] = [];
+    const rejected: z.infer<typeof rejectionSchema>[] = [];
+    const seen = new Set<string>();
+    // The writer sometimes overshoots; extra drafts are reported rather than silently lost
+    for (const draft of drafts.slice(inputData.count)) {
+      rejected.push({ question: draft.question, reason: `more than the ${inputData.count} question${inputData.count === 1 ? '' : 's'} asked for` });
+    }
+    for (const draft of drafts.slice(0, inputData.count)) {
+      const checked = checkRawQuestion({
+        type: 'multiple',
+        category: inputData.category ?? 'General',
+        difficulty: draft.difficulty?.toLowerCase() ?? inputData.difficulty ?? 'medium',
+        question: draft.question,
+        correct_answer: draft.correct,
+        incorrect_answers: draft.distractors,
+        explanation: draft.explanation,
+      });
+      if ('problem' in checked) {
+        rejected.push({ question: draft.question, reason: checked.problem });
+        continue;
+      }
+
+      const { question } = checked;
+      const fingerprint = questionFingerprint(question.question);
+      const reason = question.incorrect_answers.length !== DISTRACTORS_PER_QUESTION
+        ? `needs ${DISTRACTORS_PER_QUESTION} distractors, got ${question.incorrect_answers.length}`
+        : seen.has(fingerprint)
+          ? 'duplicate of another drafted question'
+          : undefined;
+      if (reason) {
+        rejected.push({ question: draft.question, reason });
+        continue;
+      }
+      seen.add(fingerprint);
+      candidates.push(question);
+    }
+
+    return { ...inputData, candidates, rejected };
+  },
+});
+
+// Step: second pass checking each question against the text: the answer must be supported, the distractors must not
+const verifyStep = createStep({
+  id: 'verify-questions',
+  description: 'Check that the source text supports each correct answer and none of the distractors',
+  inputSchema: draftedSchema,
+  outputSchema: verifiedSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    const writer = questionWriterFrom(runtimeContext);
+    const { candidates, ...rest } = inputData;
+    const accepted: RawQuestion[] = [];
+    const rejected = [...inputData.rejected];
+
+    for (const [index, raw] of candidates.entries()) {
+      const question = normalizeQuestion(raw, index);
+      let reason: string | undefined;
+      try {
+        reason = checkRejection(question, await verifyQuestion(writer, inputData.sourceText, question));
+      } catch (error) {
+        // An unchecked question is never kept
+        reason = `verification failed: ${(error as Error).message}`;
+      }
+      if (reason) rejected.push({ question: raw.question, reason });
+      else accepted.push(raw);
+    }
+
+    return { ...rest, accepted, rejected };
+  },
+});
+
+// Step: hand back the verified questions, saved as a question pack when a name was given
+const saveStep = createStep({
+  id: 'save-questions',
+  description: 'Return the verified questions and save them as a question pack if requested',
+  inputSchema: verifiedSchema,
+  outputSchema: workflowOutputSchema,
+  execute: async ({ inputData, runtimeContext, resourceId }) => {
+    const { accepted, rejected } = inputData;
+    const questions = accepted.map((raw, index) => {
+      const { id, type, category, difficulty, question, options, correct, explanation } = normalizeQuestion(raw, index);
+      return { id, type, category, difficulty, question, options, correct, explanation };
+    });
+    const dropped = rejected.length > 0 ? ` ${rejected.length} draft${rejected.length === 1 ? ' was' : 's were'} dropped.` : '';
+
+    if (!inputData.packName || accepted.length === 0) {
+      return { message: `✍️ ${accepted.length} question${accepted.length === 1 ? '' : 's'} passed verification.${dropped}`, questions, rejected };
+    }
+
+    try {
+      const { pack, replaced } = await saveQuestionPack(questionPackRepository, {
+        name: inputData.packName,
+        author: inputData.author,
+        description: 'Generated from reference text',
+        questions: accepted,
+        replace: inputData.replace,
+        // Same identity as the tools: the server-set player or the run's resource, never the input
+        ownerId: findCallerPlayerId({ runtimeContext, resourceId }),
+        now: getClock().now(),
+      });
+      const { id, name, questionCount } = summarizeQuestionPack(pack);
+      return {
+        message: `📦 ${replaced ? 'Replaced' : 'Saved'} the ${name} pack with ${questionCount} verified questions.${dropped}`,
+        questions,
+        rejected,
+        pack: { id, name, questionCount },
+      };
+    } catch (error) {
+      // Keep the generated questions even if the pack can't be saved under that name
+      if (!(error instanceof QuestionPackError)) throw error;
+      return { message: `${error.message} The questions were not saved.${dropped}`, questions, rejected, saveError: error.code };
+    }
+  },
+});
+
+const questionGenerationWorkflow = createWorkflow({
+  id: 'question-generation-workflow',
+  inputSchema: workflowInputSchema,
+  outputSchema: workflowOutputSchema,
+})
+  .then(draftStep)
+  .then(verifyStep)
+  .then(saveStep);
+
+questionGenerationWorkflow.commit();
+
+export { questionGenerationWorkflow };
@@ -1,50 +1,94 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
 import { triviaAgent } from '../agents/trivia-agent';
+import type { GameErrorCode, GameErrorResult } from '../game/errors';
+import { publishGameEvent } from '../game/events';
+import { getScoringRules, scoringPresetNames, summarizeRules } from '../game/scoring';
+import { answerQuestion, getGameStats, skipQuestion, startGame, useLifeline } from '../game/session';
+import { lifelineNames } from '../game/types';
+import { difficulties, questionTypes } from '../questions';
+import { findCallerPlayerId } from '../tools/player-identity';
+import { questionPayloadSchema, questionsCountSchema } from '../tools/question-payload';
 
-const questionSchema = z.object({
-  id: z.string(),
-  category: z.string(),
-  difficulty: z.string(),
-  question: z.string(),
-  options: z.array(z.string()),
-  correct: z.string().optional(),
+const workflowInputSchema = z.object({
+  amount: questionsCountSchema.default(10).describe('Number of questions'),
+  playerName: z.string().optional(),
+  category: z.string().optional().describe('Category name (e.g. "Geography") or OpenTDB id'),
+  difficulty: z.enum(difficulties).optional(),
+  questionType: z.enum(questionTypes).default('multiple'),
+  scoring: z.enum(scoringPresetNames).optional(),
+  pack: z.string().optional().describe('Name or id of an imported question pack to play instead of the regular questions'),
 });
 
-// Step: fetch and normalize questions
-const fetchQuestions = createStep({
-  id: 'fetch-trivia-questions',
-  description: 'Fetch multiple choice trivia questions from OpenTDB and normalize them',
-  inputSchema: z.object({
-    amount: z.number().default(10).describe('Number of questions to fetch'),
-    category: z.string().optional(),
-    difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
-    playerName: z.string().optional(),
-  }),
-  outputSchema: z.object({ questions: z.array(questionSchema), playerName: z.string().optional() }),
-  execute: async ({ inputData }) => {
-    if (!inputData) throw new Error('Input data is required');
+const startedGameSchema = z.object({
+  playerId: z.string(),
+  playerName: z.string().optional(),
+  scoring: z.enum(scoringPresetNames).optional(),
+  totalQuestions: z.number(),
+  firstQuestion: questionPayloadSchema,
+});
+
+// State passed from one question turn to the next
+const turnSchema = z.object({
+  playerId: z.string(),
+  totalQuestions: z.number(),
+  score: z.number(),
+  message: z.string().describe('Feedback on the last action, or the intro before the first question'),
+  currentQuestion: questionPayloadSchema.optional(),
+  hint: z.object({
+    remainingOptions: z.array(z.string()),
+    clue: z.string().optional(),
+    audienceVotes: z.array(z.object({ option: z.string(), percent: z.number() })).optional(),
+  }).optional().describe('Help from lifelines used on the current question'),
+  gameCompleted: z.boolean(),
+});
+
+const turnResumeSchema = z.object({
+  action: z.enum(['answer', 'hint', 'lifeline', 'skip']),
+  answer: z.string().optional().describe('Required for "answer": A-D, True/False or free text'),
+  lifeline: z.enum(lifelineNames).optional().describe('Required for "lifeline"; "hint" is the fifty-fifty lifeline'),
+});
+
+type Turn = z.infer<typeof turnSchema>;
 
-    const params = new URLSearchParams({ amount: String(inputData.amount), type: 'multiple' });
-    if (inputData.category) params.append('category', inputData.category);
-    if (inputData.difficulty) params.append('difficulty', inputData.difficulty);
+// Failures that mean the game ended underneath the run (e.g. it expired while the run was suspended)
+const gameOverCodes = new Set<GameErrorCode>(['NO_ACTIVE_GAME', 'GAME_COMPLETED', 'GAME_ABANDONED', 'GAME_EXPIRED']);
 
-    const url = `https://opentdb.com/api.php?${params.toString()}`;
-    const res = await fetch(url);
-    const data: any = await res.json();
+// A failed move keeps the turn on the same question, unless the game is over
+function failedTurn(turn: Turn, result: GameErrorResult): Turn {
+  return { ...turn, message: result.message, gameCompleted: gameOverCodes.has(result.code) };
+}
 
-    if (!data.results) throw new Error('Failed to fetch trivia questions');
+// Step: start a practice game with the shared game logic, so it lands in the same storage and leaderboards
+const startTriviaGame = createStep({
+  id: 'start-trivia-game',
+  description: 'Start a practice game for the player and issue the first question',
+  inputSchema: workflowInputSchema,
+  outputSchema: startedGameSchema,
+  execute: async ({ inputData, runId, runtimeContext, resourceId }) => {
+    if (!inputData) throw new Error('Input data is required');
 
-    const questions = data.results.map((q: any, idx: number) => ({
-      id: `q-${idx + 1}`,
-      category: q.category || 'General',
-      difficulty: q.difficulty || 'medium',
-      question: q.question || '',
-      options: [...q.incorrect_answers.map((s: string) => s), q.correct_answer],
-      correct: q.correct_answer,
-    }));
+    // Same identity as the tools: the server-set player or the run's resource, never the client's input
+    const playerId = findCallerPlayerId({ runtimeContext, resourceId }) ?? `workflow-${runId}`;
+    const result = await startGame({
+      playerId,
+      mode: 'practice',
+      scoring: inputData.scoring,
+      questionType: inputData.questionType,
+      questionsCount: inputData.amount,
+      category: inputData.category,
+      difficulty: inputData.difficulty,
+      pack: inputData.pack,
+    });
+    if (!result.success || !result.currentQuestion) throw new Error(result.message);
 
-  return { questions, playerName: inputData.playerName };
+    return {
+      playerId,
+      playerName: inputData.playerName,
+      scoring: inputData.scoring,
+      totalQuestions: result.totalQuestions,
+      firstQuestion: result.currentQuestion,
+    };
   },
 });
 
@@ -52,28 +96,32 @@ const fetchQuestions = createStep({
 const prepareAndPresent = createStep({
   id: 'prepare-present',
   description: 'Create an engaging intro, rules, and present the first question using the trivia agent (stream-friendly)',
-  inputSchema: z.object({ questions: z.array(questionSchema), playerName: z.string().optional() }),
-  outputSchema: z.object({ presentation: z.string(), firstQuestion: questionSchema.optional() }),
+  inputSchema: startedGameSchema,
+  outputSchema: turnSchema,
   execute: async ({ inputData, mastra }) => {
-    const questions = inputData.questions;
+    const { firstQuestion } = inputData;
     const playerName = inputData.playerName ?? 'Player';
 
-    if (!questions || questions.length === 0) throw new Error('No questions provided');
-
     // Friendly intro and quick rules
     const intro = `🎉 Welcome ${playerName}! Ready to play Trivia Master?\n` +
-      `Rules: 10 questions, 3 hints (50/50), 2 skips, streak bonuses. Answer by typing A/B/C/D or the full answer. Good luck!`;
+      `Rules: ${summarizeRules(getScoringRules(inputData.scoring))}. Answer by typing A/B/C/D, True/False, or the full answer. Good luck!`;
 
-    // Format the first N questions into a clear block the agent can use to create an engaging presentation
-    const firstQuestion = questions[0];
-    const optionsText = firstQuestion.options.map((o, idx) => `${String.fromCharCode(65 + idx)}. ${o}`).join('\n');
+    // Format the first question into a clear block the agent can use to create an engaging presentation
+    const optionsText = firstQuestion.type === 'text'
+      ? '(free-text answer, no options)'
+      : firstQuestion.options.map((o, idx) => `${String.fromCharCode(65 + idx)}. ${o}`).join('\n');
 
     const prompt = [
       `${intro}\n\nYou are an energetic, charismatic trivia host. Use emojis, short encouragements, and keep the player engaged.`,
-      `Present the first question with a quick hook, then the question text and the options, numbered A-D.`,
+      firstQuestion.type === 'multiple'
+        ? `Present the first question with a quick hook, then the question text and the options, numbered A-D.`
+        : firstQuestion.type === 'boolean'
+          ? `Present the first question with a quick hook, then the statement, and ask whether it is True or False.`
+          : `Present the first question with a quick hook, then the question text, and ask the player to type their answer.`,
       `Keep the presentation under 200 words, start with a one-line hook, and end with 'Your answer:' to prompt the player.`,
       `Question metadata (do not reveal the correct answer):`,
-      `ID: ${firstQuestion.id}`,
+      `Number: ${firstQuestion.index} of ${inputData.totalQuestions}`,
+      `Type: ${firstQuestion.type}`,
       `Category: ${firstQuestion.category}`,
       `Difficulty: ${firstQuestion.difficulty}`,
       `Question: ${firstQuestion.question}`,
@@ -92,8 +140,8 @@ const prepareAndPresent = createStep({
 
       if (streamResp?.textStream) {
         for await (const chunk of streamResp.textStream) {
-          // echo to stdout for local dev feedback and accumulate
-          process.stdout.write(chunk);
+          // Live to the player's event stream (see ../server), and accumulated for the step output
+          publishGameEvent({ type: 'host-text', playerId: inputData.playerId, delta: chunk });
           presentation += chunk;
         }
       } else {
@@ -103,26 +151,140 @@ const prepareAndPresent = createStep({
         presentation = genResp?.text ?? '';
       }
     } catch (err) {
-      // If any streaming/generation issue occurs, we produce a minimal fallback presentation
+      // If any streaming/generation issue occurs, fall back to the minimal presentation below
+      presentation = '';
+    }
+    // A failed model call can also surface as an empty stream
+    if (!presentation.trim()) {
       presentation = `🎲 Trivia Ready!\n\n${firstQuestion.question}\n${optionsText}\n\nYour answer:`;
     }
+    publishGameEvent({ type: 'host-text-end', playerId: inputData.playerId, text: presentation });
+
+    return {
+      playerId: inputData.playerId,
+      totalQuestions: inputData.totalQuestions,
+      score: 0,
+      message: presentation,
+      currentQuestion: firstQuestion,
+      gameCompleted: false,
+    };
+  },
+});
+
+// Step: wait for the player's move on the current question, apply it, and hand the result to the next turn
+const playQuestion = createStep({
+  id: 'play-question',
+  description: 'Suspend until the player answers, asks for a hint or skips the current question, then score it',
+  inputSchema: turnSchema,
+  outputSchema: turnSchema,
+  resumeSchema: turnResumeSchema,
+  suspendSchema: turnSchema,
+  execute: async ({ inputData, resumeData, suspend }) => {
+    // First pass of each turn: show the question and wait for the player
+    if (!resumeData) {
+      await suspend(inputData);
+      return inputData;
+    }
+
+    const { playerId } = inputData;
+    // The workflow holds the current question, so moves always target it
+    const questionToken = inputData.currentQuestion?.questionToken ?? '';
+    switch (resumeData.action) {
+      case 'answer': {
+        const result = await answerQuestion(playerId, resumeData.answer ?? '', questionToken);
+        if (!result.success) return failedTurn(inputData, result);
+        return {
+          ...inputData,
+          score: result.score,
+          message: result.message,
+          currentQuestion: result.nextQuestion,
+          hint: undefined,
+          gameCompleted: result.gameCompleted,
+        };
+      }
+      case 'hint':
+      case 'lifeline': {
+        const lifeline = resumeData.action === 'hint' ? 'fifty-fifty' : resumeData.lifeline ?? 'fifty-fifty';
+        const result = await useLifeline(playerId, lifeline, questionToken);
+        if (!result.success) return failedTurn(inputData, result);
+        const hint = inputData.hint ?? { remainingOptions: [] };
+        return {
+          ...inputData,
+          score: Math.max(0, inputData.score - result.scorePenalty),
+          message: result.message,
+          // Extra time moves the clock shown with the question
+          currentQuestion: inputData.currentQuestion && result.remainingSeconds !== undefined
+            ? { ...inputData.currentQuestion, remainingSeconds: result.remainingSeconds }
+            : inputData.currentQuestion,
+          hint: {
+            remainingOptions: result.remainingOptions ?? hint.remainingOptions,
+            clue: result.clue ?? hint.clue,
+            audienceVotes: result.audienceVotes ?? hint.audienceVotes,
+          },
+        };
+      }
+      case 'skip': {
+        const result = await skipQuestion(playerId, questionToken);
+        if (!result.success) return failedTurn(inputData, result);
+        return {
+          ...inputData,
+          score: Math.max(0, inputData.score - result.scorePenalty),
+          message: result.message,
+          currentQuestion: result.nextQuestion,
+          hint: undefined,
+          gameCompleted: !result.nextQuestion,
+        };
+      }
+    }
+  },
+});
 
-    return { presentation, firstQuestion };
+// Step: wrap up the finished game
+const summarizeGame = createStep({
+  id: 'summarize-game',
+  description: 'Summarize the finished game: score, accuracy and rating',
+  inputSchema: turnSchema,
+  outputSchema: z.object({
+    playerId: z.string(),
+    score: z.number(),
+    correctAnswers: z.number(),
+    totalQuestions: z.number(),
+    accuracy: z.number(),
+    hintsUsed: z.number(),
+    skipsUsed: z.number(),
+    rating: z.number(),
+    summary: z.string(),
+  }),
+  execute: async ({ inputData }) => {
+    const stats = await getGameStats(inputData.playerId);
+    if (!stats.success) throw new Error(stats.message);
+    const summary = `${inputData.message}\n\n` +
+      `🏁 You answered ${stats.correctAnswers} of ${stats.totalQuestions} correctly (${stats.accuracy}% accuracy) ` +
+      `and scored ${stats.score} points. Your rating is now ${stats.rating}.`;
+
+    return {
+      playerId: inputData.playerId,
+      score: stats.score,
+      correctAnswers: stats.correctAnswers,
+      totalQuestions: stats.totalQuestions,
+      accuracy: stats.accuracy,
+      hintsUsed: stats.hintsUsed,
+      skipsUsed: stats.skipsUsed,
+      rating: stats.rating,
+      summary,
+    };
   },
 });
 
 const triviaWorkflow = createWorkflow({
   id: 'trivia-workflow',
-  inputSchema: z.object({
-    amount: z.number().default(10),
-    playerName: z.string().optional(),
-    category: z.string().optional(),
-    difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
-  }),
-  outputSchema: z.object({ presentation: z.string(), firstQuestion: questionSchema.optional() }),
+  inputSchema: workflowInputSchema,
+  outputSchema: summarizeGame.outputSchema,
 })
-  .then(fetchQuestions)
-  .then(prepareAndPresent);
+  .then(startTriviaGame)
+  .then(prepareAndPresent)
+  .dountil(playQuestion, async ({ inputData }) => inputData.gameCompleted)
+  .then(summarizeGame);
 
 triviaWorkflow.commit();
 
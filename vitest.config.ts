@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Keep the shared repositories in process and the question sources on the local banks
+    env: { TRIVIA_STORAGE: 'memory', TRIVIA_OFFLINE: '1' }
+  }
+});